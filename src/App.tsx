@@ -3,7 +3,8 @@ import BookLibrary from './components/BookLibrary'
 import MainApp from './components/MainApp'
 import { Book } from './types'
 import { db } from './db/database'
-import { bookService, databaseManager } from './db/services'
+import { bookService, databaseManager, settingsService } from './db/services'
+import { analysisQueueService } from './services/analysisQueue'
 import './utils/debugTools' // Load debug tools
 
 function App() {
@@ -12,6 +13,8 @@ function App() {
 
   useEffect(() => {
     loadBooks()
+    // Carry on with batch analysis interrupted by a reload
+    analysisQueueService.start()
   }, [])
 
   const loadBooks = async () => {
@@ -23,18 +26,6 @@ function App() {
       // Import integrity checker
       const { DatabaseIntegrityChecker } = await import('./utils/databaseIntegrityChecker')
       
-      // CRITICAL: Clean duplicates first to prevent corruption
-      try {
-        if (console && console.log) {
-          console.log('App: Cleaning duplicates before loading books...')
-        }
-        await bookService.removeDuplicateBooks()
-      } catch (cleanupError) {
-        if (console && console.warn) {
-          console.warn('App: Duplicate cleanup failed:', cleanupError)
-        }
-      }
-      
       // Wait for database to settle before operations
       await DatabaseIntegrityChecker.waitForDatabaseSettle(1000)
       
@@ -70,10 +61,10 @@ function App() {
             console.log('App: Load attempt', attempt + 1, 'of 3')
           }
           
-          // Clean up any duplicate or corrupted books (only on first attempt)
+          // Clean up corrupted books and hash older ones (only on first attempt)
           if (attempt === 0) {
-            await bookService.removeDuplicateBooks()
             await bookService.validateAndFixBooks()
+            await bookService.ensureContentHashes()
           }
           
           allBooks = await db.books.toArray()
@@ -106,7 +97,7 @@ function App() {
       }
       
       // Load current book from settings if exists
-      const settings = await db.settings.get('settings')
+      const settings = await settingsService.getSettings()
       if (settings?.currentBookId) {
         const book = allBooks.find(b => b.id === settings.currentBookId)
         if (book) setCurrentBook(book)
@@ -136,11 +127,7 @@ function App() {
     setCurrentBook(book)
     // Save current book to settings
     try {
-      await db.settings.put({
-        id: 'settings',
-        currentBookId: book.id,
-        theme: 'light'
-      })
+      await settingsService.setCurrentBook(book.id)
     } catch (error) {
       console.error('Error saving current book:', error)
     }
@@ -213,15 +200,17 @@ function App() {
             break
           }
           
-          // If not found by ID, try finding by filename/title immediately
-          const matchingBook = allBooks.find(book => {
-            return book.fileName === currentBook.fileName || 
+          // If not found by ID, try finding by file content/title immediately.
+          // Copies of the same file are separate books, so only a single match counts.
+          const matchingBooks = allBooks.filter(book => {
+            return (currentBook.contentHash && book.contentHash === currentBook.contentHash) || 
                    (book.title === currentBook.title && book.author === currentBook.author)
           })
+          const matchingBook = matchingBooks.length === 1 ? matchingBooks[0] : undefined
           
           if (matchingBook) {
             if (console && console.log) {
-              console.log('App: Found matching book by filename/title on attempt', attempt + 1)
+              console.log('App: Found matching book by file content/title on attempt', attempt + 1)
             }
             updatedBook = matchingBook
             break
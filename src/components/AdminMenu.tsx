@@ -3,9 +3,10 @@ import { useState } from 'react'
 interface AdminMenuProps {
   onResetDatabase: () => void
   onForceCleanDatabase: () => void
+  onOpenLlmSettings: () => void
 }
 
-export default function AdminMenu({ onResetDatabase, onForceCleanDatabase }: AdminMenuProps) {
+export default function AdminMenu({ onResetDatabase, onForceCleanDatabase, onOpenLlmSettings }: AdminMenuProps) {
   const [isOpen, setIsOpen] = useState(false)
 
   return (
@@ -29,6 +30,16 @@ export default function AdminMenu({ onResetDatabase, onForceCleanDatabase }: Adm
       
       {isOpen && (
         <div className="flex gap-2">
+          <button
+            onClick={() => {
+              onOpenLlmSettings()
+              setIsOpen(false)
+            }}
+            className="admin-menu-button neutral"
+            title="Choose the AI provider and model used for analysis"
+          >
+            AI Settings
+          </button>
           <button
             onClick={() => {
               onForceCleanDatabase()
@@ -0,0 +1,54 @@
+import { useState } from 'react'
+import { LlmProviderType } from '../types'
+import { credentialService } from '../db/services'
+
+interface ApiKeyUnlockFormProps {
+  provider: LlmProviderType
+  onUnlocked: () => void
+}
+
+// Passphrase prompt for an encrypted API key
+export default function ApiKeyUnlockForm({ provider, onUnlocked }: ApiKeyUnlockFormProps) {
+  const [passphrase, setPassphrase] = useState('')
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsUnlocking(true)
+    setError(null)
+
+    try {
+      await credentialService.unlockApiKey(provider, passphrase)
+      setPassphrase('')
+      onUnlocked()
+    } catch (unlockError) {
+      setError(unlockError instanceof Error ? unlockError.message : 'Could not unlock the key')
+    } finally {
+      setIsUnlocking(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleUnlock} className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoComplete="current-password"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white px-4 py-2 rounded-md text-sm font-medium"
+        >
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </form>
+  )
+}
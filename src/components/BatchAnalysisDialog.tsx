@@ -0,0 +1,126 @@
+import { useState } from 'react'
+import { Book } from '../types'
+import { analysisQueueService } from '../services/analysisQueue'
+import { getChapterLabel, isAnalyzableChapter } from '../utils/chapterBoundaries'
+
+interface BatchAnalysisDialogProps {
+  book: Book
+  analyzedChapters: Set<number>
+  staleChapters: Set<number>
+  onClose: () => void
+}
+
+export default function BatchAnalysisDialog({ book, analyzedChapters, staleChapters, onClose }: BatchAnalysisDialogProps) {
+  const [fromChapter, setFromChapter] = useState(1)
+  const [toChapter, setToChapter] = useState(book.currentChapter)
+  const [skipAnalyzed, setSkipAnalyzed] = useState(true)
+  const [isStarting, setIsStarting] = useState(false)
+
+  // Stale chapters are always redone: their characters no longer match their text
+  const selectedChapters = book.chapterBoundaries
+    .filter(boundary => boundary.chapter >= fromChapter && boundary.chapter <= toChapter)
+    .filter(isAnalyzableChapter)
+    .map(boundary => boundary.chapter)
+    .filter(chapter => !skipAnalyzed || !analyzedChapters.has(chapter) || staleChapters.has(chapter))
+
+  const handleStart = async () => {
+    setIsStarting(true)
+
+    try {
+      await analysisQueueService.enqueue(book.id, selectedChapters)
+      onClose()
+    } catch (error) {
+      console.error('Error starting batch analysis:', error)
+      alert(`Failed to start analysis: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      setIsStarting(false)
+    }
+  }
+
+  const chapterOptions = book.chapterBoundaries.map(boundary => (
+    <option key={boundary.chapter} value={boundary.chapter}>
+      {getChapterLabel(book.chapterBoundaries, boundary.chapter)}
+    </option>
+  ))
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Analyze Several Chapters</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Chapters are analyzed in order in the background
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+              <select
+                value={fromChapter}
+                onChange={(e) => setFromChapter(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {chapterOptions}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+              <select
+                value={toChapter}
+                onChange={(e) => setToChapter(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {chapterOptions}
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={skipAnalyzed}
+              onChange={(e) => setSkipAnalyzed(e.target.checked)}
+            />
+            Skip chapters that are already analyzed
+          </label>
+
+          <p className="text-sm text-gray-600">
+            {selectedChapters.length === 0
+              ? 'No chapters in this range need analysis.'
+              : `${selectedChapters.length} chapter${selectedChapters.length !== 1 ? 's' : ''} will be analyzed. ` +
+                'Requests are spaced out to stay within provider rate limits, so this can take a while. ' +
+                'You can pause, and a reload continues where it stopped.'}
+          </p>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={handleStart}
+              disabled={isStarting || selectedChapters.length === 0}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white py-2 px-4 rounded-md transition-colors font-medium"
+            >
+              Start
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
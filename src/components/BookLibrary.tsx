@@ -1,9 +1,10 @@
 import { useState } from 'react'
 import { Book } from '../types'
-import { bookService, databaseManager } from '../db/services'
+import { bookService, databaseManager, groupDuplicateBooks } from '../db/services'
 import BookUpload from './BookUpload'
 import AdminMenu from './AdminMenu'
 import BookCover from './BookCover'
+import LlmSettingsDialog from './LlmSettingsDialog'
 
 interface BookLibraryProps {
   books: Book[]
@@ -20,6 +21,12 @@ export default function BookLibrary({
 }: BookLibraryProps) {
   const [isUploading, setIsUploading] = useState(false)
   const [showUpload, setShowUpload] = useState(false)
+  const [showLlmSettings, setShowLlmSettings] = useState(false)
+
+  // Copies of the same file are flagged, not merged: the user decides which to keep
+  const duplicateGroups = groupDuplicateBooks(books)
+  const getOtherCopies = (book: Book) =>
+    duplicateGroups.find(group => group.includes(book))?.filter(other => other !== book) || []
 
   const handleDeleteBook = async (bookId: string) => {
     if (confirm('Are you sure you want to delete this book? This will also delete all character data.')) {
@@ -105,6 +112,10 @@ export default function BookLibrary({
                   onBookAdded(book)
                   setShowUpload(false)
                 }}
+                onExistingBookOpened={(book) => {
+                  setShowUpload(false)
+                  onBookSelect(book)
+                }}
                 onCancel={() => setShowUpload(false)}
                 setIsUploading={setIsUploading}
               />
@@ -147,6 +158,12 @@ export default function BookLibrary({
         ) : (
           /* Book Grid */
           <div className="relative">
+            {duplicateGroups.length > 0 && (
+              <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-md p-4 text-sm text-yellow-800">
+                {duplicateGroups.length === 1 ? 'One file is' : `${duplicateGroups.length} files are`} in your library more than once.
+                Each copy keeps its own chapters and analysis, so compare them and delete the ones you don't need.
+              </div>
+            )}
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
               {books.map((book) => (
                 <div
@@ -165,6 +182,14 @@ export default function BookLibrary({
                       </p>
                       <div className="mt-3 flex items-center justify-between text-xs" style={{ color: 'var(--apple-gray-500)' }}>
                         <span>Chapter {book.currentChapter} of {book.totalChapters}</span>
+                        {getOtherCopies(book).length > 0 && (
+                          <span
+                            className="px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 font-medium"
+                            title={`Same file as ${getOtherCopies(book).map(other => `"${other.title}" (added ${formatDate(other.uploadDate)})`).join(', ')}`}
+                          >
+                            Duplicate
+                          </span>
+                        )}
                       </div>
                     </div>
                     <button
@@ -240,7 +265,12 @@ export default function BookLibrary({
       <AdminMenu 
         onResetDatabase={handleResetDatabase}
         onForceCleanDatabase={handleForceCleanDatabase}
+        onOpenLlmSettings={() => setShowLlmSettings(true)}
       />
+
+      {showLlmSettings && (
+        <LlmSettingsDialog onClose={() => setShowLlmSettings(false)} />
+      )}
     </div>
   )
 }
\ No newline at end of file
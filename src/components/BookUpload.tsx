@@ -1,56 +1,107 @@
-import { useState } from 'react'
-import { Book, ChapterBoundary } from '../types'
-import { bookService, pdfService } from '../db/services'
-import ChapterBoundaryEditor from './ChapterBoundaryEditor'
+import { useRef, useState } from 'react'
+import { Book, BookFormat, ChapterBoundary, ChapterCandidate, ChapterDetectionStrategy, IngestionProgress } from '../types'
+import { bookService, getSourceService } from '../db/services'
+import { ACCEPTED_BOOK_EXTENSIONS, BOOK_FORMAT_LABELS, getBookFormat, stripBookExtension } from '../services/bookFormat'
+import { isAnalyzableChapter } from '../utils/chapterBoundaries'
+import NewChapterBoundaryEditor from './NewChapterBoundaryEditor'
+
+const DETECTION_STRATEGY_LABELS: Record<ChapterDetectionStrategy, string> = {
+  'outline': 'PDF bookmarks',
+  'contents-page': 'printed table of contents',
+  'chapter-markers': 'chapter headings in the text',
+  'font-size': 'large heading text',
+  'epub-toc': 'EPUB table of contents',
+  'spine': 'EPUB reading order',
+  'headings': 'chapter headings in the text',
+  'separators': 'section separators',
+  'single-chapter': 'no chapter breaks found'
+}
 
 interface BookUploadProps {
   onBookAdded: (book: Book) => void
+  onExistingBookOpened: (book: Book) => void
   onCancel: () => void
   setIsUploading: (uploading: boolean) => void
 }
 
-export default function BookUpload({ onBookAdded, onCancel, setIsUploading }: BookUploadProps) {
+export default function BookUpload({ onBookAdded, onExistingBookOpened, onCancel, setIsUploading }: BookUploadProps) {
   const [file, setFile] = useState<File | null>(null)
+  const [format, setFormat] = useState<BookFormat>('pdf')
   const [title, setTitle] = useState('')
   const [author, setAuthor] = useState('')
   const [isProcessing, setIsProcessing] = useState(false)
   const [processingStep, setProcessingStep] = useState('')
   const [detectedChapters, setDetectedChapters] = useState<ChapterBoundary[]>([])
+  const [detectionStrategy, setDetectionStrategy] = useState<ChapterDetectionStrategy | null>(null)
+  const [chapterCandidates, setChapterCandidates] = useState<ChapterCandidate[]>([])
   const [manualMode, setManualMode] = useState(false)
   const [manualChapterCount, setManualChapterCount] = useState(10)
   const [showChapterEditor, setShowChapterEditor] = useState(false)
   const [totalPages, setTotalPages] = useState(0)
+  const [progress, setProgress] = useState<IngestionProgress | null>(null)
+  const [existingBooks, setExistingBooks] = useState<Book[]>([])
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const selectedFileRef = useRef<File | null>(null)
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0]
-    if (selectedFile && selectedFile.type === 'application/pdf') {
+    const selectedFormat = selectedFile ? getBookFormat(selectedFile) : null
+    if (selectedFile && selectedFormat) {
       setFile(selectedFile)
+      setFormat(selectedFormat)
       // Auto-fill title from filename
-      const fileName = selectedFile.name.replace('.pdf', '')
+      const fileName = stripBookExtension(selectedFile.name)
       if (!title) {
         setTitle(fileName)
       }
+
+      // Same file already uploaded? Offer to pick up where it left off
+      selectedFileRef.current = selectedFile
+      setExistingBooks([])
+      bookService.findBooksByFile(selectedFile)
+        .then(books => {
+          if (selectedFileRef.current === selectedFile) setExistingBooks(books)
+        })
+        .catch(error => console.warn('Error looking up existing books:', error))
     } else {
-      alert('Please select a valid PDF file')
+      alert('Please select a PDF, EPUB, text or Markdown file')
     }
   }
 
   const handleProcessFile = async () => {
     if (!file || !title.trim() || !author.trim()) {
-      alert('Please fill in all fields and select a PDF file')
+      alert('Please fill in all fields and select a book file')
       return
     }
 
     setIsProcessing(true)
     setIsUploading(true)
+
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
     
     try {
-      setProcessingStep('Analyzing PDF structure...')
-      const { chapterBoundaries, totalPages: pages } = await pdfService.processBookFile(file)
+      setProcessingStep(
+        format === 'pdf' ? 'Analyzing PDF structure...' :
+        format === 'epub' ? 'Reading EPUB table of contents...' :
+        'Splitting text at chapter headings...'
+      )
+      const { chapterBoundaries, totalPages: pages, detectionStrategy: strategy, candidates } = await getSourceService(format).processBookFile(file, {
+        signal: abortController.signal,
+        onProgress: (update) => {
+          setProgress(update)
+          setProcessingStep(update.page > 0
+            ? `Scanning page ${update.page}/${update.totalPages} - ${update.stage.toLowerCase()}`
+            : `${update.stage}...`)
+        }
+      })
+      setProgress(null)
       setTotalPages(pages)
       
       if (chapterBoundaries.length > 0) {
         setDetectedChapters(chapterBoundaries)
+        setDetectionStrategy(strategy)
+        setChapterCandidates(candidates || [])
         setProcessingStep(`Detected ${chapterBoundaries.length} chapters - Review boundaries`)
         setShowChapterEditor(true)
         setIsProcessing(false)
@@ -62,13 +113,40 @@ export default function BookUpload({ onBookAdded, onCancel, setIsUploading }: Bo
         setIsProcessing(false)
       }
     } catch (error) {
-      console.error('Error processing file:', error)
-      alert('Failed to process PDF file. Please try again.')
+      setProgress(null)
       setIsProcessing(false)
       setIsUploading(false)
+
+      // Cancelled by the user - nothing to report
+      if (abortController.signal.aborted) return
+
+      console.error('Error processing file:', error)
+      alert(`Failed to process ${BOOK_FORMAT_LABELS[format]} file. Please try again.`)
+    } finally {
+      abortControllerRef.current = null
     }
   }
 
+  const handleOpenExistingBook = async (existingBook: Book) => {
+    if (!file) return
+
+    setIsProcessing(true)
+    setProcessingStep('Opening existing book...')
+
+    try {
+      onExistingBookOpened(await bookService.reattachSourceFile(existingBook.id, file))
+    } catch (error) {
+      console.error('Error reattaching book file:', error)
+      alert('Failed to open the existing book. Please try again.')
+      setIsProcessing(false)
+    }
+  }
+
+  const handleCancelProcessing = () => {
+    abortControllerRef.current?.abort()
+    setProcessingStep('')
+  }
+
   const createManualChapters = (chapterCount: number, totalPages: number): ChapterBoundary[] => {
     const pagesPerChapter = Math.floor(totalPages / chapterCount)
     const chapters: ChapterBoundary[] = []
@@ -127,9 +205,7 @@ export default function BookUpload({ onBookAdded, onCancel, setIsUploading }: Bo
       console.error('Error creating book:', error)
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       
-      if (errorMessage.includes('already exists')) {
-        alert(`A book with the filename "${file.name}" already exists in your library. Please rename the file or delete the existing book first.`)
-      } else if (errorMessage.includes('ConstraintError') || errorMessage.includes('AbortError')) {
+      if (errorMessage.includes('ConstraintError') || errorMessage.includes('AbortError')) {
         alert(
           `Database constraint error occurred. This might be due to duplicate data. ` +
           `Please refresh the page and try again. If the problem persists, the database may need to be reset.`
@@ -140,7 +216,7 @@ export default function BookUpload({ onBookAdded, onCancel, setIsUploading }: Bo
     } finally {
       setIsProcessing(false)
       setIsUploading(false)
-      pdfService.cleanup()
+      getSourceService(format).cleanup()
     }
   }
 
@@ -164,17 +240,45 @@ export default function BookUpload({ onBookAdded, onCancel, setIsUploading }: Bo
         <div className="space-y-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              PDF File
+              Book File (PDF, EPUB, TXT or Markdown)
             </label>
             <input
               type="file"
-              accept=".pdf"
+              accept={ACCEPTED_BOOK_EXTENSIONS}
               onChange={handleFileSelect}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               disabled={isProcessing}
             />
           </div>
 
+          {existingBooks.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
+              <p className="text-yellow-800 font-medium">This file is already in your library</p>
+              <div className="mt-2 space-y-2">
+                {existingBooks.map(existingBook => (
+                  <div key={existingBook.id} className="flex items-center justify-between gap-3">
+                    <div className="min-w-0 text-sm text-yellow-800">
+                      <p className="font-medium truncate">{existingBook.title}</p>
+                      <p className="text-yellow-700 truncate">
+                        by {existingBook.author} · added {new Date(existingBook.uploadDate).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleOpenExistingBook(existingBook)}
+                      disabled={isProcessing}
+                      className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white px-3 py-1 rounded text-sm flex-shrink-0"
+                    >
+                      Open existing book
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <p className="text-yellow-700 text-sm mt-2">
+                Opening it keeps its chapters and character analysis. Uploading again adds a separate copy.
+              </p>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Book Title
@@ -207,8 +311,24 @@ export default function BookUpload({ onBookAdded, onCancel, setIsUploading }: Bo
             <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
               <div className="flex items-center">
                 <div className="animate-spin h-5 w-5 border-2 border-blue-600 border-t-transparent rounded-full mr-3"></div>
-                <span className="text-blue-800">{processingStep}</span>
+                <span className="text-blue-800 flex-1">{processingStep}</span>
+                {abortControllerRef.current && (
+                  <button
+                    onClick={handleCancelProcessing}
+                    className="text-sm text-blue-700 hover:text-blue-900 underline ml-3"
+                  >
+                    Cancel
+                  </button>
+                )}
               </div>
+              {progress && progress.totalPages > 0 && (
+                <div className="w-full bg-blue-100 rounded-full h-1.5 mt-3">
+                  <div
+                    className="bg-blue-600 h-1.5 rounded-full transition-all duration-200"
+                    style={{ width: `${(progress.page / progress.totalPages) * 100}%` }}
+                  />
+                </div>
+              )}
             </div>
           )}
 
@@ -217,8 +337,18 @@ export default function BookUpload({ onBookAdded, onCancel, setIsUploading }: Bo
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-green-800 font-medium">
-                    ✓ Detected {detectedChapters.length} chapters
+                    ✓ Detected {detectedChapters.filter(isAnalyzableChapter).length} chapters
                   </p>
+                  {detectedChapters.some(boundary => !isAnalyzableChapter(boundary)) && (
+                    <p className="text-green-700 text-sm mt-1">
+                      {detectedChapters.filter(boundary => !isAnalyzableChapter(boundary)).length} front or back matter sections will be skipped
+                    </p>
+                  )}
+                  {detectionStrategy && (
+                    <p className="text-green-700 text-sm mt-1">
+                      Found using {DETECTION_STRATEGY_LABELS[detectionStrategy]}
+                    </p>
+                  )}
                   <p className="text-green-600 text-sm mt-1">
                     Review and adjust chapter boundaries to ensure accuracy
                   </p>
@@ -308,9 +438,11 @@ export default function BookUpload({ onBookAdded, onCancel, setIsUploading }: Bo
 
       {/* Chapter Boundary Editor */}
       {showChapterEditor && file && (
-        <ChapterBoundaryEditor
+        <NewChapterBoundaryEditor
           file={file}
+          format={format}
           detectedChapters={detectedChapters}
+          candidates={chapterCandidates}
           totalPages={totalPages}
           onChaptersUpdated={handleChapterBoundariesUpdated}
           onClose={() => setShowChapterEditor(false)}
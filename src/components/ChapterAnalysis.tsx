@@ -1,7 +1,11 @@
-import { useState } from 'react'
-import { Book, Character } from '../types'
-import { pdfService, characterService } from '../db/services'
+import { useEffect, useState } from 'react'
+import { AnalysisRun, ApiKeyStatus, Book, Character, LlmProviderType } from '../types'
+import { characterService, credentialService, getSourceService, settingsService, textStoreService } from '../db/services'
 import { characterExtractionService } from '../services/characterExtraction'
+import { LLM_PROVIDER_DEFAULTS } from '../services/llmProviders'
+import ApiKeyUnlockForm from './ApiKeyUnlockForm'
+import LlmSettingsDialog from './LlmSettingsDialog'
+import { getChapterLabel, isAnalyzableChapter } from '../utils/chapterBoundaries'
 
 interface ChapterAnalysisProps {
   book: Book
@@ -22,10 +26,52 @@ export default function ChapterAnalysis({
   const [extractedCharacters, setExtractedCharacters] = useState<Character[]>([])
   const [error, setError] = useState<string | null>(null)
   const [analysisComplete, setAnalysisComplete] = useState(false)
+  const [textComparison, setTextComparison] = useState<{ raw: string; cleaned: string } | null>(null)
+  const [loadingComparison, setLoadingComparison] = useState(false)
+  const [provider, setProvider] = useState<LlmProviderType | null>(null)
+  const [keyStatus, setKeyStatus] = useState<ApiKeyStatus | null>(null)
+  const [showLlmSettings, setShowLlmSettings] = useState(false)
+  const [previousRun, setPreviousRun] = useState<AnalysisRun | null>(null)
+  const [isRollingBack, setIsRollingBack] = useState(false)
+
+  useEffect(() => {
+    checkApiKey()
+    characterService.getAnalysisRuns(book.id, book.currentChapter)
+      .then(runs => setPreviousRun(runs[0] || null))
+      .catch(error => console.error('Error loading analysis runs:', error))
+  }, [])
+
+  const checkApiKey = async () => {
+    try {
+      const settings = await settingsService.getLlmSettings()
+      setProvider(settings.provider)
+      setKeyStatus(await credentialService.getKeyStatus(settings.provider))
+    } catch (error) {
+      console.error('Error checking API key:', error)
+    }
+  }
+
+  const handleRollback = async () => {
+    if (!confirm(`Remove everything the analysis of ${chapterLabel} added? Other chapters' findings are kept.`)) return
+
+    setIsRollingBack(true)
+    try {
+      await characterService.rollbackChapter(book.id, book.currentChapter)
+      onCharactersUpdated()
+      onClose()
+    } catch (rollbackError) {
+      console.error('Rollback error:', rollbackError)
+      setError(rollbackError instanceof Error ? rollbackError.message : 'Failed to roll back the analysis')
+      setIsRollingBack(false)
+    }
+  }
+
+  const isKeyReady = keyStatus === 'ready' || keyStatus === 'not-needed'
 
   const currentChapterBoundary = book.chapterBoundaries.find(
     boundary => boundary.chapter === book.currentChapter
   )
+  const chapterLabel = getChapterLabel(book.chapterBoundaries, book.currentChapter)
 
   const handleAnalyzeChapter = async () => {
     if (!currentChapterBoundary) {
@@ -33,33 +79,34 @@ export default function ChapterAnalysis({
       return
     }
 
+    if (!isAnalyzableChapter(currentChapterBoundary)) {
+      setError(`${chapterLabel} is marked as front or back matter. Use "Edit Chapters" if it is part of the story.`)
+      return
+    }
+
     setIsAnalyzing(true)
     setError(null)
     setAnalysisStep('')
     
     try {
       // Step 1: Validate and extract chapter text
-      setAnalysisStep('Validating PDF and extracting text...')
+      setAnalysisStep('Validating book file and extracting text...')
       
-      // Validate PDF blob before creating file
-      if (!book.pdfBlob || book.pdfBlob.size === 0) {
-        throw new Error('PDF file is not available. Please re-upload the book.')
+      // Validate source blob before creating file
+      if (!book.sourceBlob || book.sourceBlob.size === 0) {
+        throw new Error('Book file is not available. Please re-upload the book.')
       }
       
       // Test blob integrity
       try {
-        const testChunk = book.pdfBlob.slice(0, 1024)
+        const testChunk = book.sourceBlob.slice(0, 1024)
         await testChunk.arrayBuffer()
       } catch (blobError) {
-        console.error('PDF blob corruption detected:', blobError)
-        throw new Error('PDF file appears to be corrupted. Please re-upload the book.')
+        console.error('Source blob corruption detected:', blobError)
+        throw new Error('Book file appears to be corrupted. Please re-upload the book.')
       }
       
-      const file = new File([book.pdfBlob], book.fileName, { type: 'application/pdf' })
-      const chapterText = await pdfService.extractChapterText(
-        file, 
-        currentChapterBoundary
-      )
+      const { text: chapterText } = await textStoreService.getChapterText(book, currentChapterBoundary)
 
       if (chapterText.trim().length < 100) {
         throw new Error(
@@ -69,17 +116,19 @@ export default function ChapterAnalysis({
         )
       }
 
-      // Step 2: Send to Gemini API
+      // Step 2: Send to the configured model
       setAnalysisStep('Analyzing characters with AI...')
-      const characters = await characterExtractionService.extractCharacters(
+      const characters = await characterExtractionService.analyzeChapter(
         book.id,
         book.currentChapter,
-        chapterText
+        chapterText,
+        ({ chunk, totalChunks }) => {
+          if (totalChunks > 1) {
+            setAnalysisStep(`Analyzing characters with AI (part ${chunk} of ${totalChunks})...`)
+          }
+        }
       )
 
-      // Step 3: Save to database
-      setAnalysisStep('Saving character data...')
-      await characterService.saveCharacters(book.id, characters)
 
       setExtractedCharacters(characters)
       setAnalysisStep('Analysis complete!')
@@ -96,9 +145,30 @@ export default function ChapterAnalysis({
     }
   }
 
+  // Debug view: what the source contains versus what is sent for analysis
+  const handleCompareText = async () => {
+    if (!currentChapterBoundary) return
+
+    if (textComparison) {
+      setTextComparison(null)
+      return
+    }
+
+    try {
+      setLoadingComparison(true)
+      const { text, rawText } = await textStoreService.getChapterText(book, currentChapterBoundary)
+      setTextComparison({ raw: rawText, cleaned: text })
+    } catch (err) {
+      console.error('Text comparison error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to extract chapter text')
+    } finally {
+      setLoadingComparison(false)
+    }
+  }
+
   const handleClose = () => {
     if (!isAnalyzing) {
-      pdfService.cleanup()
+      getSourceService(book.format).cleanup()
       onClose()
     }
   }
@@ -111,7 +181,7 @@ export default function ChapterAnalysis({
           <div>
             <h2 className="text-xl font-semibold text-gray-900">Analyze Chapter</h2>
             <p className="text-sm text-gray-600 mt-1">
-              Chapter {book.currentChapter} of "{book.title}"
+              {currentChapterBoundary?.part && `${currentChapterBoundary.part} · `}{chapterLabel} of "{book.title}"
             </p>
           </div>
           <button
@@ -139,9 +209,30 @@ export default function ChapterAnalysis({
                   Chapter Analysis
                 </h3>
                 <p className="text-gray-600 text-sm mb-6">
-                  This will extract character information from Chapter {book.currentChapter} using AI analysis. 
+                  This will extract character information from {chapterLabel} using AI analysis. 
                   Only characters mentioned 2 or more times will be included.
                 </p>
+                {previousRun && (
+                  <div className="text-gray-600 bg-gray-50 border border-gray-200 rounded-md text-sm p-3 mb-6">
+                    <p>
+                      Analyzed {new Date(previousRun.createdAt).toLocaleString()}
+                      {previousRun.model ? ` with ${previousRun.model}` : ''}.
+                      Analyzing again replaces these results instead of adding to them.
+                    </p>
+                    <button
+                      onClick={handleRollback}
+                      disabled={isRollingBack || isAnalyzing}
+                      className="mt-2 text-red-600 hover:text-red-800 underline disabled:opacity-50"
+                    >
+                      {isRollingBack ? 'Rolling back...' : 'Roll back this analysis'}
+                    </button>
+                  </div>
+                )}
+                {book.staleChapters?.includes(book.currentChapter) && (
+                  <p className="text-amber-700 bg-amber-50 border border-amber-200 rounded-md text-sm p-3 mb-6">
+                    This chapter's boundaries changed after it was analyzed. Analyze it again to bring its characters up to date.
+                  </p>
+                )}
               </div>
 
               {isAnalyzing ? (
@@ -155,12 +246,69 @@ export default function ChapterAnalysis({
                   </p>
                 </div>
               ) : (
-                <button
-                  onClick={handleAnalyzeChapter}
-                  className="bg-blue-600 hover:bg-blue-700 text-white px-8 py-3 rounded-lg font-medium transition-colors"
-                >
-                  Start Analysis
-                </button>
+                <div className="space-y-3">
+                  {keyStatus === 'missing' && provider && (
+                    <div className="text-left bg-yellow-50 border border-yellow-200 rounded-md p-4">
+                      <p className="text-sm text-yellow-800 mb-3">
+                        {LLM_PROVIDER_DEFAULTS[provider].label} needs an API key before chapters can be analyzed.
+                        Add your own key to continue.
+                      </p>
+                      <button
+                        onClick={() => setShowLlmSettings(true)}
+                        className="bg-yellow-600 hover:bg-yellow-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                      >
+                        Open AI Settings
+                      </button>
+                    </div>
+                  )}
+                  {keyStatus === 'locked' && provider && (
+                    <div className="text-left bg-yellow-50 border border-yellow-200 rounded-md p-4">
+                      <p className="text-sm text-yellow-800 mb-3">
+                        Your API key is encrypted. Enter your passphrase to unlock it for this session.
+                      </p>
+                      <ApiKeyUnlockForm provider={provider} onUnlocked={checkApiKey} />
+                    </div>
+                  )}
+                  <button
+                    onClick={handleAnalyzeChapter}
+                    disabled={!isKeyReady}
+                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-8 py-3 rounded-lg font-medium transition-colors"
+                  >
+                    Start Analysis
+                  </button>
+                  <div>
+                    <button
+                      onClick={handleCompareText}
+                      disabled={loadingComparison}
+                      className="text-sm text-gray-500 hover:text-gray-700 underline disabled:opacity-50"
+                    >
+                      {loadingComparison
+                        ? 'Extracting text...'
+                        : textComparison ? 'Hide extracted text' : 'Compare raw and cleaned text'}
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {textComparison && !isAnalyzing && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-6 text-left">
+                  <div>
+                    <p className="text-xs font-medium text-gray-700 mb-1">
+                      Raw ({textComparison.raw.length.toLocaleString()} characters)
+                    </p>
+                    <pre className="text-xs text-gray-600 bg-gray-50 border rounded p-2 h-64 overflow-y-auto whitespace-pre-wrap">
+                      {textComparison.raw}
+                    </pre>
+                  </div>
+                  <div>
+                    <p className="text-xs font-medium text-gray-700 mb-1">
+                      Sent for analysis ({textComparison.cleaned.length.toLocaleString()} characters)
+                    </p>
+                    <pre className="text-xs text-gray-600 bg-gray-50 border rounded p-2 h-64 overflow-y-auto whitespace-pre-wrap">
+                      {textComparison.cleaned}
+                    </pre>
+                  </div>
+                </div>
               )}
             </div>
           )}
@@ -246,6 +394,15 @@ export default function ChapterAnalysis({
           </div>
         )}
       </div>
+
+      {showLlmSettings && (
+        <LlmSettingsDialog
+          onClose={() => {
+            setShowLlmSettings(false)
+            checkApiKey()
+          }}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -1,4 +1,6 @@
+import { useState } from 'react'
 import { Character } from '../types'
+import { getRelationshipStates } from '../utils/relationshipStates'
 
 interface CharacterDetailProps {
   character: Character
@@ -31,6 +33,19 @@ export default function CharacterDetail({
   currentChapter, 
   onClose 
 }: CharacterDetailProps) {
+  const [expandedRelationships, setExpandedRelationships] = useState<Set<string>>(new Set())
+
+  const toggleRelationshipHistory = (targetId: string) => {
+    setExpandedRelationships(previous => {
+      const next = new Set(previous)
+      if (next.has(targetId)) {
+        next.delete(targetId)
+      } else {
+        next.add(targetId)
+      }
+      return next
+    })
+  }
   
   const getRelatedCharacter = (targetId: string): Character | undefined => {
     return characters.find(char => char.id === targetId)
@@ -136,26 +151,52 @@ export default function CharacterDetail({
                 const relatedChar = getRelatedCharacter(relationship.targetCharacterId)
                 if (!relatedChar) return null
 
+                // Already cut off at the current chapter
+                const states = getRelationshipStates(relationship)
+                const isExpanded = expandedRelationships.has(relationship.targetCharacterId)
+
                 return (
-                  <div
-                    key={index}
-                    className="flex items-center justify-between p-2 bg-gray-50 rounded-md text-sm"
-                  >
-                    <div className="flex items-center space-x-2">
-                      <div
-                        className="w-3 h-3 rounded-full"
-                        style={{ backgroundColor: RELATIONSHIP_COLORS[relationship.type] }}
-                      />
-                      <span className="font-medium">{relatedChar.name}</span>
-                    </div>
-                    <div className="text-right">
-                      <div className="font-medium text-gray-700">
-                        {relationship.description}
+                  <div key={index} className="p-2 bg-gray-50 rounded-md text-sm">
+                    <div className={`flex items-center justify-between ${relationship.ended ? 'opacity-60' : ''}`}>
+                      <div className="flex items-center space-x-2">
+                        <div
+                          className="w-3 h-3 rounded-full"
+                          style={{ backgroundColor: RELATIONSHIP_COLORS[relationship.type] }}
+                        />
+                        <span className="font-medium">{relatedChar.name}</span>
                       </div>
-                      <div className="text-xs text-gray-500">
-                        {RELATIONSHIP_LABELS[relationship.type]}
+                      <div className="text-right">
+                        <div className="font-medium text-gray-700">
+                          {relationship.description}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {RELATIONSHIP_LABELS[relationship.type]}
+                          {relationship.ended && ` · ended in Ch. ${states[states.length - 1].chapter}`}
+                        </div>
                       </div>
                     </div>
+
+                    {states.length > 1 && (
+                      <>
+                        <button
+                          onClick={() => toggleRelationshipHistory(relationship.targetCharacterId)}
+                          className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          {isExpanded ? 'Hide history' : 'Show history'}
+                        </button>
+                        {isExpanded && (
+                          <ul className="mt-1 space-y-1 border-l-2 border-gray-200 pl-2">
+                            {states.map(state => (
+                              <li key={state.chapter} className="text-xs text-gray-600">
+                                <span className="font-medium">Ch. {state.chapter}:</span>{' '}
+                                {state.description || RELATIONSHIP_LABELS[state.type]}
+                                {' '}({RELATIONSHIP_LABELS[state.type]}{state.ended ? ', ended' : ''})
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </>
+                    )}
                   </div>
                 )
               })}
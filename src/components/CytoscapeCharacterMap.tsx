@@ -2,7 +2,8 @@ import { useRef, useEffect, useState } from 'react'
 import cytoscape from 'cytoscape'
 import edgehandles from 'cytoscape-edgehandles'
 import fcose from 'cytoscape-fcose'
-import { Character } from '../types'
+import { Character, Relationship } from '../types'
+import { RELATION_KINDS } from '../utils/relationKinds'
 
 // Register extensions
 ;(cytoscape as any).use(edgehandles)
@@ -15,6 +16,21 @@ interface CytoscapeCharacterMapProps {
   className?: string
 }
 
+// One edge per pair of characters
+interface RelationshipEdge {
+  data: {
+    id: string
+    source: string
+    target: string
+    arrow: 'triangle' | 'none'
+    relationship: Relationship
+    color: string
+    lineStyle: 'solid' | 'dashed'
+    opacity: number
+    label: string
+  }
+}
+
 // Apple-inspired minimalist color palette
 const RELATIONSHIP_COLORS = {
   family: '#007AFF',      // Apple blue - family bonds
@@ -176,10 +192,10 @@ export default function CytoscapeCharacterMap({
       }
     })
 
-    // Create edges from relationships - merge bidirectional relationships
-    const edges: any[] = []
+    // Create edges from relationships - merge bidirectional relationships.
+    // A directed kind on either side decides the arrow, e.g. parent to child.
+    const edgesByPair = new Map<string, RelationshipEdge>()
     const nodeMap = new Map(visibleCharacters.map(char => [char.id, char]))
-    const processedPairs = new Set<string>()
 
     visibleCharacters.forEach(character => {
       character.relationships.forEach(relationship => {
@@ -193,29 +209,38 @@ export default function CytoscapeCharacterMap({
               ? `${character.id}-${relationship.targetCharacterId}` 
               : `${relationship.targetCharacterId}-${character.id}`
             
-            // Skip if we've already processed this pair
-            if (processedPairs.has(pairKey)) {
+            const arrow = relationship.kind ? RELATION_KINDS[relationship.kind].arrow : undefined
+
+            // Skip if we've already processed this pair, unless only this side gives a direction
+            const processed = edgesByPair.get(pairKey)
+            if (processed && (processed.data.arrow === 'triangle' || !arrow)) {
               return
             }
+
+            const [source, target] = arrow === 'from-target'
+              ? [relationship.targetCharacterId, character.id]
+              : [character.id, relationship.targetCharacterId]
             
-            edges.push({
+            edgesByPair.set(pairKey, {
               data: {
                 id: pairKey,
-                source: character.id,
-                target: relationship.targetCharacterId,
+                source,
+                target,
+                arrow: arrow ? 'triangle' : 'none',
                 relationship: relationship,
+                // Relationships arrive as of the current chapter, so this is their current state
                 color: RELATIONSHIP_COLORS[relationship.type],
+                lineStyle: relationship.ended ? 'dashed' : 'solid',
+                opacity: relationship.ended ? 0.4 : 0.85,
                 label: '' // No labels for cleaner look
               }
             })
-            
-            processedPairs.add(pairKey)
           }
         }
       })
     })
 
-    return { nodes, edges }
+    return { nodes, edges: [...edgesByPair.values()] }
   }
 
   const initializeCytoscape = () => {
@@ -294,17 +319,19 @@ export default function CytoscapeCharacterMap({
           }
         },
         
-        // Clean minimalist edge styles - undirected connections
+        // Clean minimalist edge styles - arrows only where direction matters
         {
           selector: 'edge',
           style: {
-            'width': 4, // Thicker for better visibility without arrows
+            'width': 4, // Thicker for better visibility
             'line-color': 'data(color)',
-            // Remove all arrow styling for undirected appearance
-            'target-arrow-shape': 'none',
+            'target-arrow-shape': 'data(arrow)',
+            'target-arrow-color': 'data(color)',
+            'arrow-scale': 1.2,
             'source-arrow-shape': 'none',
             'curve-style': 'straight', // Straight lines to minimize crossings
-            'opacity': 0.85,
+            'line-style': 'data(lineStyle)', // Dashed once a relationship has ended
+            'opacity': 'data(opacity)',
             // Remove all text/labels from edges for cleaner look
             'label': '', // No labels
             'text-opacity': 0 // Ensure no text is visible
@@ -899,6 +926,14 @@ export default function CytoscapeCharacterMap({
             <div className="w-3 h-0.5" style={{ backgroundColor: RELATIONSHIP_COLORS.other, borderRadius: '2px' }}></div>
             <span className="text-xs text-gray-600">Other</span>
           </div>
+          <div className="flex items-center space-x-2">
+            <div className="w-3 border-t-2 border-dashed border-gray-400"></div>
+            <span className="text-xs text-gray-600">Ended</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="w-3 text-xs leading-none text-gray-500">→</span>
+            <span className="text-xs text-gray-600">Parent → child, mentor → student</span>
+          </div>
         </div>
       </div>
       
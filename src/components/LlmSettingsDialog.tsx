@@ -0,0 +1,376 @@
+import { useEffect, useState } from 'react'
+import { ApiCredential, LlmProviderType, LlmSettings } from '../types'
+import { credentialService, settingsService } from '../db/services'
+import { DEFAULT_LLM_SETTINGS, LLM_PROVIDER_DEFAULTS, LlmHttpError, createLlmProvider } from '../services/llmProviders'
+import ApiKeyUnlockForm from './ApiKeyUnlockForm'
+
+interface LlmSettingsDialogProps {
+  onClose: () => void
+}
+
+// The canned test provider is only offered while developing
+const PROVIDER_TYPES = (Object.keys(LLM_PROVIDER_DEFAULTS) as LlmProviderType[])
+  .filter(type => type !== 'fake' || import.meta.env.DEV)
+
+const MIN_PASSPHRASE_LENGTH = 8
+
+export default function LlmSettingsDialog({ onClose }: LlmSettingsDialogProps) {
+  const [settings, setSettings] = useState<LlmSettings>(DEFAULT_LLM_SETTINGS)
+  const [models, setModels] = useState<string[]>([])
+  const [isLoadingModels, setIsLoadingModels] = useState(false)
+  const [modelError, setModelError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [credential, setCredential] = useState<ApiCredential | undefined>()
+  const [isKeyLocked, setIsKeyLocked] = useState(false)
+  const [isReplacingKey, setIsReplacingKey] = useState(false)
+  const [newApiKey, setNewApiKey] = useState('')
+  const [encryptKey, setEncryptKey] = useState(false)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null)
+  const [isTesting, setIsTesting] = useState(false)
+
+  useEffect(() => {
+    settingsService.getLlmSettings()
+      .then(setSettings)
+      .catch(error => console.error('Error loading model settings:', error))
+  }, [])
+
+  useEffect(() => {
+    loadCredential(settings.provider)
+  }, [settings.provider])
+
+  const loadCredential = async (provider: LlmProviderType) => {
+    try {
+      const [saved, status] = await Promise.all([
+        credentialService.getCredential(provider),
+        credentialService.getKeyStatus(provider)
+      ])
+      setCredential(saved)
+      setIsKeyLocked(status === 'locked')
+      setIsReplacingKey(false)
+      resetKeyForm()
+    } catch (error) {
+      console.error('Error loading API key:', error)
+    }
+  }
+
+  const resetKeyForm = () => {
+    setNewApiKey('')
+    setEncryptKey(false)
+    setPassphrase('')
+    setConfirmPassphrase('')
+    setTestResult(null)
+  }
+
+  const keyRequirement = LLM_PROVIDER_DEFAULTS[settings.provider].apiKey
+  const usesBaseUrl = settings.provider === 'openai-compatible' || settings.provider === 'ollama'
+  const usesApiKey = keyRequirement !== 'none'
+  const isEnteringKey = usesApiKey && (!credential || isReplacingKey)
+
+  const passphraseError = !encryptKey || !newApiKey.trim()
+    ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : passphrase !== confirmPassphrase
+        ? 'Passphrases do not match'
+        : null
+
+  const handleProviderChange = (provider: LlmProviderType) => {
+    setSettings({
+      provider,
+      model: LLM_PROVIDER_DEFAULTS[provider].model,
+      baseUrl: LLM_PROVIDER_DEFAULTS[provider].baseUrl
+    })
+    setModels([])
+    setModelError(null)
+  }
+
+  // A key typed into the form takes precedence over the saved one
+  const getKeyForRequests = async (): Promise<string | undefined> => {
+    if (!usesApiKey) return undefined
+    if (newApiKey.trim()) return newApiKey.trim()
+    return await credentialService.getApiKey(settings.provider)
+  }
+
+  const handleLoadModels = async () => {
+    setIsLoadingModels(true)
+    setModelError(null)
+
+    try {
+      const available = await createLlmProvider(settings, await getKeyForRequests()).listModels()
+      setModels(available)
+      if (available.length === 0) {
+        setModelError('The server did not list any models')
+      }
+    } catch (error) {
+      console.error('Error listing models:', error)
+      setModelError(`Could not load models: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsLoadingModels(false)
+    }
+  }
+
+  // Listing models is the cheapest authenticated call every provider offers
+  const handleTestConnection = async () => {
+    setIsTesting(true)
+    setTestResult(null)
+
+    try {
+      const available = await createLlmProvider(settings, await getKeyForRequests()).listModels()
+      setModels(available)
+      setTestResult({ ok: true, message: `Connected. ${available.length} models available.` })
+    } catch (error) {
+      setTestResult({
+        ok: false,
+        message: error instanceof LlmHttpError && (error.status === 401 || error.status === 403)
+          ? 'The provider rejected this key.'
+          : `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      })
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  const handleRemoveKey = async () => {
+    if (!confirm('Remove the saved API key for this provider?')) return
+
+    try {
+      await credentialService.deleteApiKey(settings.provider)
+      await loadCredential(settings.provider)
+    } catch (error) {
+      console.error('Error removing API key:', error)
+      alert('Failed to remove the API key. Please try again.')
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+
+    try {
+      await settingsService.saveLlmSettings({
+        ...settings,
+        model: settings.model.trim(),
+        baseUrl: usesBaseUrl ? settings.baseUrl?.trim() : undefined
+      })
+      if (isEnteringKey && newApiKey.trim()) {
+        await credentialService.saveApiKey(settings.provider, newApiKey.trim(), encryptKey ? passphrase : undefined)
+      }
+      onClose()
+    } catch (error) {
+      console.error('Error saving model settings:', error)
+      alert('Failed to save settings. Please try again.')
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">AI Model Settings</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Choose where chapter text is sent for character analysis
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Provider</label>
+            <select
+              value={settings.provider}
+              onChange={(e) => handleProviderChange(e.target.value as LlmProviderType)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {PROVIDER_TYPES.map(type => (
+                <option key={type} value={type}>{LLM_PROVIDER_DEFAULTS[type].label}</option>
+              ))}
+            </select>
+          </div>
+
+          {usesBaseUrl && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Server URL</label>
+              <input
+                type="url"
+                value={settings.baseUrl || ''}
+                onChange={(e) => setSettings({ ...settings, baseUrl: e.target.value })}
+                placeholder={LLM_PROVIDER_DEFAULTS[settings.provider].baseUrl}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {settings.provider === 'ollama'
+                  ? 'The Ollama server must allow requests from this site (OLLAMA_ORIGINS).'
+                  : 'Base URL of the API, ending before /chat/completions.'}
+              </p>
+            </div>
+          )}
+
+          {usesApiKey && (
+            <div className="border border-gray-200 rounded-md p-4 space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">API Key</label>
+                <p className="text-xs text-gray-500 mt-1">
+                  Your key is stored only in this browser and sent only to the provider.
+                  {keyRequirement === 'optional' && ' Leave it empty for servers that need no key.'}
+                </p>
+              </div>
+
+              {credential && !isReplacingKey ? (
+                <>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-gray-700">
+                      Key saved {credential.encrypted ? '(encrypted with a passphrase)' : '(not encrypted)'}
+                    </span>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setIsReplacingKey(true)}
+                        className="text-sm text-blue-600 hover:text-blue-800"
+                      >
+                        Replace
+                      </button>
+                      <button
+                        onClick={handleRemoveKey}
+                        className="text-sm text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                  {isKeyLocked && (
+                    <div>
+                      <p className="text-xs text-gray-600 mb-2">Enter your passphrase to use the key in this session.</p>
+                      <ApiKeyUnlockForm
+                        provider={settings.provider}
+                        onUnlocked={() => setIsKeyLocked(false)}
+                      />
+                    </div>
+                  )}
+                </>
+              ) : (
+                <>
+                  <input
+                    type="password"
+                    value={newApiKey}
+                    onChange={(e) => setNewApiKey(e.target.value)}
+                    placeholder="Paste your API key"
+                    autoComplete="off"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={encryptKey}
+                      onChange={(e) => setEncryptKey(e.target.checked)}
+                    />
+                    Encrypt with a passphrase
+                  </label>
+                  {encryptKey && (
+                    <div className="space-y-2">
+                      <input
+                        type="password"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        placeholder="Passphrase"
+                        autoComplete="new-password"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <input
+                        type="password"
+                        value={confirmPassphrase}
+                        onChange={(e) => setConfirmPassphrase(e.target.value)}
+                        placeholder="Confirm passphrase"
+                        autoComplete="new-password"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <p className="text-xs text-gray-500">
+                        You will be asked for it once per session. A forgotten passphrase cannot be recovered; remove the key and add it again.
+                      </p>
+                      {passphraseError && <p className="text-xs text-red-600">{passphraseError}</p>}
+                    </div>
+                  )}
+                  {isReplacingKey && (
+                    <button
+                      onClick={() => { setIsReplacingKey(false); resetKeyForm() }}
+                      className="text-sm text-gray-600 hover:text-gray-800"
+                    >
+                      Keep the saved key
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          <div>
+            <button
+              onClick={handleTestConnection}
+              disabled={isTesting || (usesBaseUrl && !settings.baseUrl?.trim())}
+              className="px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+            >
+              {isTesting ? 'Testing...' : 'Test connection'}
+            </button>
+            {testResult && (
+              <p className={`text-xs mt-1 ${testResult.ok ? 'text-green-700' : 'text-red-600'}`}>{testResult.message}</p>
+            )}
+          </div>
+
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Model</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                list="llm-models"
+                value={settings.model}
+                onChange={(e) => setSettings({ ...settings, model: e.target.value })}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <datalist id="llm-models">
+                {models.map(model => <option key={model} value={model} />)}
+              </datalist>
+              <button
+                onClick={handleLoadModels}
+                disabled={isLoadingModels}
+                className="px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+              >
+                {isLoadingModels ? 'Loading...' : 'Load models'}
+              </button>
+            </div>
+            {modelError && <p className="text-xs text-red-600 mt-1">{modelError}</p>}
+            {models.length > 0 && !modelError && (
+              <p className="text-xs text-gray-500 mt-1">{models.length} models available</p>
+            )}
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !settings.model.trim() || (usesBaseUrl && !settings.baseUrl?.trim()) || !!passphraseError}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white py-2 px-4 rounded-md transition-colors font-medium"
+            >
+              Save
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
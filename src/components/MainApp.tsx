@@ -1,10 +1,14 @@
 import { useState, useEffect } from 'react'
-import { Book, Character, ChapterBoundary } from '../types'
+import { AnalysisJob, Book, Character, ChapterBoundary } from '../types'
 import CytoscapeCharacterMap from './CytoscapeCharacterMap'
 import CharacterDetail from './CharacterDetail'
 import ChapterAnalysis from './ChapterAnalysis'
 import NewChapterBoundaryEditor from './NewChapterBoundaryEditor'
-import { characterService, bookService } from '../db/services'
+import ReplaceSourceFileDialog from './ReplaceSourceFileDialog'
+import BatchAnalysisDialog from './BatchAnalysisDialog'
+import { characterService, bookService, textStoreService } from '../db/services'
+import { analysisQueueService } from '../services/analysisQueue'
+import { getChapterLabel, getChapterNumber, getNumberedChapterCount, isAnalyzableChapter } from '../utils/chapterBoundaries'
 
 interface MainAppProps {
   book: Book
@@ -14,15 +18,46 @@ interface MainAppProps {
 
 export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAppProps) {
   const [characters, setCharacters] = useState<Character[]>([])
-  const [selectedCharacter, setSelectedCharacter] = useState<Character | null>(null)
+  const [selectedCharacterId, setSelectedCharacterId] = useState<string | null>(null)
   const [showAnalysis, setShowAnalysis] = useState(false)
   const [isAnalyzing, setIsAnalyzing] = useState(false)
   const [showChapterEditor, setShowChapterEditor] = useState(false)
+  const [showReplaceFile, setShowReplaceFile] = useState(false)
   const [analyzedChapters, setAnalyzedChapters] = useState<Set<number>>(new Set())
+  const [staleChapters, setStaleChapters] = useState<Set<number>>(new Set(book.staleChapters))
+  const [showBatchAnalysis, setShowBatchAnalysis] = useState(false)
+  const [analysisJob, setAnalysisJob] = useState<AnalysisJob | undefined>()
+
+  useEffect(() => {
+    return analysisQueueService.subscribe(book.id, setAnalysisJob)
+  }, [book.id])
+
+  // Show each chapter's characters as soon as the batch has saved them
+  const batchDoneCount = analysisJob?.chapters.filter(chapter => chapter.state === 'done').length ?? 0
+  useEffect(() => {
+    if (batchDoneCount > 0) loadCharacters()
+  }, [batchDoneCount])
 
   useEffect(() => {
     loadCharacters()
-  }, [book.id, book.currentChapter])
+  }, [book.id, book.currentChapter, book.chapterBoundaries])
+
+  // Taken from the list on every render, so it is always projected to the current chapter
+  const selectedCharacter = characters.find(character => character.id === selectedCharacterId) || null
+
+  // A character that has not appeared by the current chapter cannot stay selected
+  useEffect(() => {
+    if (selectedCharacterId && !characters.some(character => character.id === selectedCharacterId)) {
+      setSelectedCharacterId(null)
+    }
+  }, [characters, selectedCharacterId])
+
+  // Fill the text store in the background; only missing or stale text is extracted
+  useEffect(() => {
+    textStoreService.populateBook(book).catch(error => {
+      console.warn('Background text extraction failed:', error)
+    })
+  }, [book.id, book.chapterBoundaries])
 
   const loadCharacters = async () => {
     try {
@@ -35,6 +70,10 @@ export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAp
       // Load analyzed chapters status
       const analyzed = await characterService.getAnalyzedChapters(book.id)
       setAnalyzedChapters(analyzed)
+
+      // Re-analysis clears the flag in the database before the book prop catches up
+      const storedBook = await bookService.getBook(book.id)
+      setStaleChapters(new Set(storedBook?.staleChapters))
     } catch (error) {
       console.error('Error loading characters:', error)
     }
@@ -59,7 +98,7 @@ export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAp
   }
 
   const handleCharacterSelect = (character: Character) => {
-    setSelectedCharacter(character)
+    setSelectedCharacterId(character.id)
   }
 
   const handleCharactersUpdated = () => {
@@ -76,19 +115,6 @@ export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAp
       // Import integrity checker
       const { DatabaseIntegrityChecker } = await import('../utils/databaseIntegrityChecker')
       
-      // CRITICAL: Clean up duplicates BEFORE any operation
-      if (console && console.log) {
-        console.log('MainApp: Cleaning duplicates before chapter boundary update...')
-      }
-      
-      try {
-        await bookService.removeDuplicateBooks()
-      } catch (cleanupError) {
-        if (console && console.warn) {
-          console.warn('MainApp: Duplicate cleanup failed:', cleanupError)
-        }
-      }
-      
       // Wait for any pending database operations to settle
       await DatabaseIntegrityChecker.waitForDatabaseSettle()
       
@@ -108,9 +134,9 @@ export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAp
           console.warn('MainApp: Book not found by ID, trying alternative search...')
         }
         
-        // Try to find by filename/title
+        // Try to find by file content/title
         existingBook = await DatabaseIntegrityChecker.findBookByAlternatives({
-          fileName: book.fileName,
+          contentHash: book.contentHash,
           title: book.title,
           author: book.author
         })
@@ -225,30 +251,52 @@ export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAp
         id: book.id,
         title: book.title,
         fileName: book.fileName,
-        pdfBlobSize: book.pdfBlob?.size,
+        format: book.format,
+        sourceBlobSize: book.sourceBlob?.size,
         chapterBoundaries: book.chapterBoundaries?.length
       })
       
-      // Verify PDF blob is accessible before opening editor
-      if (!book.pdfBlob || book.pdfBlob.size === 0) {
-        alert('PDF file is not available. Please re-upload the book.')
+      // Verify source blob is accessible before opening editor
+      if (!book.sourceBlob || book.sourceBlob.size === 0) {
+        alert('Book file is not available. Please re-upload the book.')
         return
       }
       
       // Test if we can read the blob
-      const testChunk = book.pdfBlob.slice(0, 100)
+      const testChunk = book.sourceBlob.slice(0, 100)
       await testChunk.arrayBuffer()
       
       setShowChapterEditor(true)
     } catch (error) {
-      console.error('Error accessing PDF blob:', error)
-      alert('Cannot access PDF file. The file may be corrupted. Please re-upload the book.')
+      console.error('Error accessing source blob:', error)
+      alert('Cannot access book file. The file may be corrupted. Please re-upload the book.')
     }
   }
 
   const canGoToNextChapter = book.currentChapter < book.totalChapters
   const canGoToPrevChapter = book.currentChapter > 1
 
+  const currentBoundary = book.chapterBoundaries.find(boundary => boundary.chapter === book.currentChapter)
+  const currentChapterNumber = getChapterNumber(book.chapterBoundaries, book.currentChapter)
+  const currentChapterLabel = getChapterLabel(book.chapterBoundaries, book.currentChapter)
+  const canAnalyzeCurrentChapter = !currentBoundary || isAnalyzableChapter(currentBoundary)
+
+  const isBatchActive = analysisJob?.status === 'queued' || analysisJob?.status === 'running'
+  const batchStates = new Map(analysisJob?.chapters.map(entry => [entry.chapter, entry]))
+  const batchFailedCount = analysisJob?.chapters.filter(chapter => chapter.state === 'failed').length ?? 0
+
+  // Consecutive chapters sharing a part are drawn together in the analysis strip
+  const chapterGroups: Array<{ part?: string; chapters: number[] }> = []
+  for (let chapterNum = 1; chapterNum <= book.totalChapters; chapterNum++) {
+    const part = book.chapterBoundaries.find(boundary => boundary.chapter === chapterNum)?.part
+    const lastGroup = chapterGroups[chapterGroups.length - 1]
+    if (lastGroup && lastGroup.part === part) {
+      lastGroup.chapters.push(chapterNum)
+    } else {
+      chapterGroups.push({ part, chapters: [chapterNum] })
+    }
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
       {/* Header */}
@@ -275,12 +323,23 @@ export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAp
               {/* Edit Chapters Button */}
               <button
                 onClick={handleEditChapters}
-                className="text-xs sm:text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 px-2 sm:px-3 py-1.5 sm:py-2 rounded-md transition-colors whitespace-nowrap"
-                title="Edit chapter boundaries"
+                disabled={isBatchActive}
+                className="text-xs sm:text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 px-2 sm:px-3 py-1.5 sm:py-2 rounded-md transition-colors whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                title={isBatchActive ? 'Pause or cancel the running analysis to edit chapters' : 'Edit chapter boundaries'}
               >
                 Edit Chapters
               </button>
 
+              {/* Replace File Button */}
+              <button
+                onClick={() => setShowReplaceFile(true)}
+                disabled={isBatchActive}
+                className="text-xs sm:text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 px-2 sm:px-3 py-1.5 sm:py-2 rounded-md transition-colors whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                title={isBatchActive ? 'Pause or cancel the running analysis to replace the file' : 'Replace the book file with a better scan or new edition'}
+              >
+                Replace File
+              </button>
+
               {/* Chapter Navigation */}
               <div className="flex items-center space-x-1 sm:space-x-2">
                 <button
@@ -294,9 +353,11 @@ export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAp
                   </svg>
                 </button>
                 
-                <div className="text-center px-2 sm:px-4">
+                <div className="text-center px-2 sm:px-4 max-w-[10rem] sm:max-w-[14rem]">
                   <div className="flex items-center justify-center gap-1 text-xs sm:text-sm text-gray-600 mb-1">
-                    <span>Chapter</span>
+                    <span className="truncate">
+                      {currentBoundary?.part || (currentChapterNumber === null ? 'Section' : 'Chapter')}
+                    </span>
                     {/* Analysis Status Indicator */}
                     <div 
                       className={`w-1.5 h-1.5 sm:w-2 sm:h-2 rounded-full ${
@@ -311,9 +372,16 @@ export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAp
                       }
                     />
                   </div>
-                  <div className="font-semibold text-gray-900 text-sm sm:text-base">
-                    {book.currentChapter} / {book.totalChapters}
+                  <div className="font-semibold text-gray-900 text-sm sm:text-base truncate" title={currentChapterLabel}>
+                    {currentChapterNumber === null
+                      ? currentChapterLabel
+                      : `${currentChapterNumber} / ${getNumberedChapterCount(book.chapterBoundaries)}`}
                   </div>
+                  {currentChapterNumber !== null && currentBoundary?.title && (
+                    <div className="text-xs text-gray-500 truncate" title={currentBoundary.title}>
+                      {currentBoundary.title}
+                    </div>
+                  )}
                 </div>
 
                 <button
@@ -328,10 +396,21 @@ export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAp
                 </button>
               </div>
 
+              {/* Batch Analysis Button */}
+              <button
+                onClick={() => setShowBatchAnalysis(true)}
+                disabled={isAnalyzing || isBatchActive}
+                className="text-xs sm:text-sm bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 px-2 sm:px-3 py-1.5 sm:py-2 rounded-md transition-colors whitespace-nowrap"
+                title="Analyze a range of chapters one after another"
+              >
+                Analyze Range
+              </button>
+
               {/* Analyze Chapter Button */}
               <button
                 onClick={() => setShowAnalysis(true)}
-                disabled={isAnalyzing}
+                disabled={isAnalyzing || isBatchActive || !canAnalyzeCurrentChapter}
+                title={canAnalyzeCurrentChapter ? undefined : 'Front and back matter is not analyzed'}
                 className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-2 sm:px-4 py-1.5 sm:py-2 rounded-md font-medium transition-colors text-xs sm:text-sm whitespace-nowrap flex-shrink-0"
               >
                 {isAnalyzing ? 'Analyzing...' : 'Analyze Chapter'}
@@ -354,41 +433,132 @@ export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAp
             {/* Chapter Analysis Status */}
             <div className="flex items-center gap-2">
               <span className="text-xs text-gray-500 flex-shrink-0">Analysis:</span>
-              <div className="flex gap-1 flex-wrap overflow-hidden">
-                {Array.from({ length: book.totalChapters }, (_, i) => {
-                  const chapterNum = i + 1;
-                  const isAnalyzed = analyzedChapters.has(chapterNum);
-                  const isCurrent = chapterNum === book.currentChapter;
-                  
-                  return (
-                    <button
-                      key={chapterNum}
-                      onClick={() => handleChapterChange(chapterNum)}
-                      className={`w-3 h-3 sm:w-4 sm:h-4 rounded-sm transition-all flex-shrink-0 ${
-                        isCurrent
-                          ? 'ring-2 ring-blue-500 ring-offset-1'
-                          : ''
-                      } ${
-                        isAnalyzed
-                          ? 'bg-green-500 hover:bg-green-600'
-                          : 'bg-gray-300 hover:bg-gray-400'
-                      }`}
-                      title={`Chapter ${chapterNum}${isAnalyzed ? ' (analyzed)' : ' (not analyzed)'}`}
-                    />
-                  );
-                })}
+              <div className="flex gap-x-3 gap-y-1 flex-wrap overflow-hidden">
+                {chapterGroups.map((group, groupIndex) => (
+                  <div key={groupIndex} className="flex items-center gap-1 flex-wrap">
+                    {group.part && (
+                      <span className="text-xs text-gray-400 truncate max-w-[6rem]" title={group.part}>
+                        {group.part}
+                      </span>
+                    )}
+                    {group.chapters.map(chapterNum => {
+                      const isAnalyzed = analyzedChapters.has(chapterNum);
+                      const isStale = isAnalyzed && staleChapters.has(chapterNum);
+                      const isCurrent = chapterNum === book.currentChapter;
+                      const isUnnumbered = getChapterNumber(book.chapterBoundaries, chapterNum) === null;
+                      const boundary = book.chapterBoundaries.find(b => b.chapter === chapterNum);
+                      const isMatter = Boolean(boundary && !isAnalyzableChapter(boundary));
+                      const batchEntry = batchStates.get(chapterNum);
+                      const batchState = batchEntry?.state === 'done' ? undefined : batchEntry?.state;
+                      const status = batchState === 'running' ? ' (analyzing now)'
+                        : batchState === 'queued' ? ' (queued for analysis)'
+                        : batchState === 'failed' ? ` (analysis failed: ${batchEntry?.error})`
+                        : isMatter ? ' (not story, skipped)' : isStale ? ' (boundaries changed, needs re-analysis)' : isAnalyzed ? ' (analyzed)' : ' (not analyzed)';
+
+                      return (
+                        <button
+                          key={chapterNum}
+                          onClick={() => handleChapterChange(chapterNum)}
+                          className={`w-3 h-3 sm:w-4 sm:h-4 ${isUnnumbered ? 'rounded-full' : 'rounded-sm'} transition-all flex-shrink-0 ${
+                            isCurrent
+                              ? 'ring-2 ring-blue-500 ring-offset-1'
+                              : ''
+                          } ${
+                            batchState === 'running'
+                              ? 'bg-blue-500 animate-pulse'
+                              : batchState === 'queued'
+                              ? 'bg-blue-200 hover:bg-blue-300'
+                              : batchState === 'failed'
+                              ? 'bg-red-500 hover:bg-red-600'
+                              : isMatter
+                              ? 'bg-white border border-dashed border-gray-300 hover:border-gray-400'
+                              : isStale
+                                ? 'bg-amber-400 hover:bg-amber-500'
+                                : isAnalyzed
+                                ? 'bg-green-500 hover:bg-green-600'
+                                : 'bg-gray-300 hover:bg-gray-400'
+                          }`}
+                          title={`${getChapterLabel(book.chapterBoundaries, chapterNum)}${status}`}
+                        />
+                      );
+                    })}
+                  </div>
+                ))}
               </div>
               <div className="flex items-center gap-3 text-xs text-gray-500 ml-auto">
                 <div className="flex items-center gap-1">
                   <div className="w-2 h-2 bg-green-500 rounded-sm"></div>
                   <span>Analyzed</span>
                 </div>
+                {staleChapters.size > 0 && (
+                  <div className="flex items-center gap-1">
+                    <div className="w-2 h-2 bg-amber-400 rounded-sm"></div>
+                    <span>Re-analyze</span>
+                  </div>
+                )}
+                {analysisJob && analysisJob.status !== 'finished' && (
+                  <div className="flex items-center gap-1">
+                    <div className="w-2 h-2 bg-blue-200 rounded-sm"></div>
+                    <span>Queued</span>
+                  </div>
+                )}
+                {batchFailedCount > 0 && (
+                  <div className="flex items-center gap-1">
+                    <div className="w-2 h-2 bg-red-500 rounded-sm"></div>
+                    <span>Failed</span>
+                  </div>
+                )}
                 <div className="flex items-center gap-1">
                   <div className="w-2 h-2 bg-gray-300 rounded-sm"></div>
                   <span>Pending</span>
                 </div>
               </div>
             </div>
+
+            {/* Batch Analysis Status */}
+            {analysisJob && (
+              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+                <span>
+                  {analysisJob.status === 'running' ? 'Analyzing chapters: '
+                    : analysisJob.status === 'queued' ? 'Waiting to analyze chapters: '
+                    : analysisJob.status === 'paused' ? 'Chapter analysis paused: '
+                    : 'Chapter analysis finished: '}
+                  {batchDoneCount} of {analysisJob.chapters.length} done
+                  {batchFailedCount > 0 && `, ${batchFailedCount} failed`}
+                </span>
+                {analysisJob.error && <span className="text-red-600">{analysisJob.error}</span>}
+                {isBatchActive && (
+                  <button
+                    onClick={() => analysisQueueService.pause(book.id)}
+                    className="text-blue-600 hover:text-blue-800 underline"
+                  >
+                    Pause
+                  </button>
+                )}
+                {analysisJob.status === 'paused' && (
+                  <button
+                    onClick={() => analysisQueueService.resume(book.id)}
+                    className="text-blue-600 hover:text-blue-800 underline"
+                  >
+                    Resume
+                  </button>
+                )}
+                {!isBatchActive && batchFailedCount > 0 && (
+                  <button
+                    onClick={() => analysisQueueService.retryFailed(book.id)}
+                    className="text-blue-600 hover:text-blue-800 underline"
+                  >
+                    Retry failed
+                  </button>
+                )}
+                <button
+                  onClick={() => analysisQueueService.cancel(book.id)}
+                  className="text-gray-500 hover:text-gray-700 underline"
+                >
+                  {analysisJob.status === 'finished' ? 'Dismiss' : 'Cancel'}
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </header>
@@ -404,7 +574,7 @@ export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAp
                 <p className="text-xs sm:text-sm text-gray-600 mt-1">
                   {characters.length === 0 
                     ? 'No characters discovered yet. Analyze a chapter to get started.'
-                    : `Showing ${characters.length} character${characters.length !== 1 ? 's' : ''} up to chapter ${book.currentChapter}`
+                    : `Showing ${characters.length} character${characters.length !== 1 ? 's' : ''} up to ${currentChapterLabel}`
                   }
                 </p>
               </div>
@@ -427,7 +597,7 @@ export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAp
                   character={selectedCharacter}
                   characters={characters}
                   currentChapter={book.currentChapter}
-                  onClose={() => setSelectedCharacter(null)}
+                  onClose={() => setSelectedCharacterId(null)}
                 />
               </div>
             ) : (
@@ -458,13 +628,37 @@ export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAp
         />
       )}
 
+      {/* Batch Analysis Dialog */}
+      {showBatchAnalysis && (
+        <BatchAnalysisDialog
+          book={book}
+          analyzedChapters={analyzedChapters}
+          staleChapters={staleChapters}
+          onClose={() => setShowBatchAnalysis(false)}
+        />
+      )}
+
+      {/* Replace Source File Dialog */}
+      {showReplaceFile && (
+        <ReplaceSourceFileDialog
+          book={book}
+          onClose={() => setShowReplaceFile(false)}
+          onReplaced={() => {
+            setShowReplaceFile(false)
+            onBookUpdated()
+            loadCharacters()
+          }}
+        />
+      )}
+
       {/* Chapter Boundary Editor */}
-      {showChapterEditor && book.pdfBlob && (() => {
+      {showChapterEditor && book.sourceBlob && (() => {
         try {
-          const pdfFile = new File([book.pdfBlob], book.fileName, { type: 'application/pdf' })
+          const sourceFile = bookService.getSourceFile(book)
           return (
             <NewChapterBoundaryEditor
-              file={pdfFile}
+              file={sourceFile}
+              format={book.format}
               detectedChapters={book.chapterBoundaries}
               totalPages={book.chapterBoundaries[book.chapterBoundaries.length - 1]?.endPage || 1}
               bookId={book.id}
@@ -477,7 +671,7 @@ export default function MainApp({ book, onBackToLibrary, onBookUpdated }: MainAp
           // Close editor and show error
           setTimeout(() => {
             setShowChapterEditor(false)
-            alert('Cannot access PDF file. Please try re-uploading the book.')
+            alert('Cannot access book file. Please try re-uploading the book.')
           }, 0)
           return null
         }
@@ -1,51 +1,139 @@
 import { useState, useEffect, useCallback } from 'react'
 import * as pdfjsLib from 'pdfjs-dist'
-import { ChapterBoundary } from '../types'
+import { BookFormat, BookMatter, ChapterBoundary, ChapterCandidate, ChapterDetectionStrategy, OcrPage } from '../types'
+import { EpubProcessor } from '../services/epubProcessor'
+import { TextProcessor } from '../services/textProcessor'
+import { getPageTextLayout } from '../services/pdfProcessor'
+import { pdfService } from '../db/services'
+import { BOOK_FORMAT_LABELS } from '../services/bookFormat'
+import { getChapterLabel, getChapterNumber, getMatterForTitle, isUnnumberedTitle } from '../utils/chapterBoundaries'
 
 interface NewChapterBoundaryEditorProps {
   file: File
+  format?: BookFormat
   detectedChapters: ChapterBoundary[]
+  candidates?: ChapterCandidate[] // Scored chapter starts from detection, for review
   totalPages: number
   bookId?: string // Add book ID to help with debugging
   onChaptersUpdated: (chapters: ChapterBoundary[]) => Promise<void>
   onClose: () => void
 }
 
+// Reflowable sources are previewed as text rather than rendered pages
+interface SectionTextSource {
+  extractTextFromSection(sectionNumber: number): Promise<string>
+  getSectionTitle(sectionNumber: number): string | undefined
+}
+
 interface ChapterEdit {
   id: number
   title: string
+  part?: string
+  unnumbered?: boolean
+  matter?: BookMatter
   startPage: number
   endPage: number
+  startOffset?: number
+  endOffset?: number
+}
+
+interface SplitOffsets {
+  start?: number
+  end?: number
+}
+
+const DEFAULT_TITLE_PATTERN = /^(Chapter \d+|Front matter|Back matter)$/
+
+// Below this OCR confidence a page is worth checking by eye
+const LOW_OCR_CONFIDENCE = 70
+
+const CANDIDATE_STRATEGY_LABELS: Partial<Record<ChapterDetectionStrategy, string>> = {
+  'outline': 'Bookmark',
+  'contents-page': 'Contents page',
+  'chapter-markers': 'Heading text',
+  'font-size': 'Large type'
 }
 
 export default function NewChapterBoundaryEditor({
   file,
+  format = 'pdf',
   detectedChapters,
+  candidates = [],
   totalPages,
   bookId,
   onChaptersUpdated,
   onClose
 }: NewChapterBoundaryEditorProps) {
   const [pdfDocument, setPdfDocument] = useState<any>(null)
+  const [pageLabels, setPageLabels] = useState<string[] | null>(null)
+  const [ocrPages, setOcrPages] = useState<Map<number, OcrPage>>(new Map())
+  const [sidebarView, setSidebarView] = useState<'chapters' | 'candidates'>('chapters')
+  const [candidateList, setCandidateList] = useState<ChapterCandidate[]>(candidates)
+  const [findingNext, setFindingNext] = useState(false)
+  const [findNextMessage, setFindNextMessage] = useState<string | null>(null)
+  const [candidateScan, setCandidateScan] = useState<'pending' | 'scanning' | 'done'>(format === 'pdf' ? 'pending' : 'done')
+  const [textSource, setTextSource] = useState<SectionTextSource | null>(null)
   const [chapters, setChapters] = useState<ChapterEdit[]>([])
   const [selectedChapter, setSelectedChapter] = useState<number>(0)
   const [currentPage, setCurrentPage] = useState<number>(1)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  // Load PDF document
+  // Load source document
+  useEffect(() => {
+    if (format !== 'pdf') {
+      loadTextSource()
+    } else {
+      loadPDF()
+    }
+  }, [file, format])
+
+  // Detection stops at the first strategy that finds chapters, so the other
+  // strategies' candidates are only gathered once the reader looks for them
   useEffect(() => {
-    loadPDF()
-  }, [file])
+    if (sidebarView !== 'candidates' || candidateScan !== 'pending') return
+
+    const abortController = new AbortController()
+    let finished = false
+    setCandidateScan('scanning')
+    pdfService.findChapterCandidates(file, { signal: abortController.signal })
+      .then(scanned => {
+        const scannedPages = new Set(scanned.map(candidate => candidate.page))
+        setCandidateList(prev => [...prev.filter(candidate => !scannedPages.has(candidate.page)), ...scanned]
+          .sort((a, b) => a.page - b.page))
+      })
+      .catch(scanError => {
+        if (!abortController.signal.aborted) console.error('Error scanning for chapter starts:', scanError)
+      })
+      .finally(() => {
+        if (abortController.signal.aborted) return
+        finished = true
+        setCandidateScan('done')
+      })
+
+    // Leaving the tab mid-scan stops it; it starts over on the next visit
+    return () => {
+      if (finished) return
+      abortController.abort()
+      setCandidateScan('pending')
+    }
+  }, [sidebarView])
 
   // Initialize chapters from detected boundaries or create defaults
   useEffect(() => {
     if (detectedChapters.length > 0) {
       const initialChapters: ChapterEdit[] = detectedChapters.map((boundary, index) => ({
         id: index + 1,
-        title: `Chapter ${index + 1}`,
+        title: boundary.title || (boundary.matter
+          ? getChapterLabel(detectedChapters, boundary.chapter)
+          : `Chapter ${getChapterNumber(detectedChapters, boundary.chapter) ?? index + 1}`),
+        part: boundary.part,
+        unnumbered: boundary.unnumbered,
+        matter: boundary.matter,
         startPage: boundary.startPage,
-        endPage: boundary.endPage
+        endPage: boundary.endPage,
+        startOffset: boundary.startOffset,
+        endOffset: boundary.endOffset
       }))
       setChapters(initialChapters)
     } else {
@@ -59,23 +147,38 @@ export default function NewChapterBoundaryEditor({
     }
   }, [detectedChapters, totalPages])
 
-  const loadPDF = async () => {
+  const loadTextSource = async () => {
     try {
       setLoading(true)
       setError(null)
-      
-      // Safari-compatible PDF.js worker setup
-      if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
-        const isSafari = /^((?!chrome|android).)*safari/i.test(navigator.userAgent)
-        
-        if (isSafari) {
-          // Safari: Use a more reliable CDN and specific version
-          pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.4.120/pdf.worker.min.js'
-        } else {
-          pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`
-        }
+
+      if (format === 'epub') {
+        const processor = new EpubProcessor()
+        await processor.loadEPUB(file)
+        setTextSource(processor)
+      } else {
+        const processor = new TextProcessor()
+        await processor.loadText(file, format === 'markdown')
+        setTextSource(processor)
+      }
+
+      setLoading(false)
+    } catch (err) {
+      if (console && console.error) {
+        console.error(`Error loading ${BOOK_FORMAT_LABELS[format]} file:`, err)
       }
+      setError(format === 'epub'
+        ? 'Failed to load EPUB file. The file may be damaged or DRM-protected.'
+        : `Failed to load ${BOOK_FORMAT_LABELS[format]} file.`)
+      setLoading(false)
+    }
+  }
 
+  const loadPDF = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      
       // Safari-compatible: Handle file reading with error checking
       let arrayBuffer: ArrayBuffer
       
@@ -101,6 +204,20 @@ export default function NewChapterBoundaryEditor({
       
       const doc = await loadingTask.promise
       
+      // Printed page numbers are optional - plenty of PDFs don't define them
+      try {
+        setPageLabels(await doc.getPageLabels())
+      } catch (labelError) {
+        setPageLabels(null)
+      }
+
+      // Scanned pages were read with OCR during upload
+      try {
+        setOcrPages(new Map((await pdfService.getOcrPages(file)).map(ocrPage => [ocrPage.page, ocrPage])))
+      } catch (ocrError) {
+        setOcrPages(new Map())
+      }
+      
       setPdfDocument(doc)
       setLoading(false)
     } catch (err) {
@@ -112,7 +229,11 @@ export default function NewChapterBoundaryEditor({
     }
   }
 
-  const updateChapter = (chapterId: number, field: 'title' | 'startPage' | 'endPage', value: string | number) => {
+  const updateChapter = (
+    chapterId: number,
+    field: 'title' | 'part' | 'unnumbered' | 'matter' | 'startPage' | 'endPage',
+    value: string | number | boolean
+  ) => {
     setChapters(prev => {
       const updated = [...prev]
       
@@ -125,28 +246,49 @@ export default function NewChapterBoundaryEditor({
         [field]: value 
       }
 
+      // Renaming a chapter to "Prologue" and the like takes it out of the numbering
+      if (field === 'title' && typeof value === 'string' && isUnnumberedTitle(value)) {
+        updated[currentChapterIndex].unnumbered = true
+      }
+
+      // Likewise "Acknowledgements" or "About the Author" are not story at all
+      if (field === 'title' && typeof value === 'string') {
+        const matter = getMatterForTitle(value, updated[currentChapterIndex].startPage, totalPages)
+        if (matter) updated[currentChapterIndex].matter = matter
+      }
+
+      // An empty selection means body text
+      if (field === 'matter') {
+        updated[currentChapterIndex].matter = (value || undefined) as BookMatter | undefined
+      }
+
       // Handle automatic sequencing when end page changes
       if (field === 'endPage' && typeof value === 'number') {
         const nextChapterIndex = currentChapterIndex + 1
         
+        // Typing a page number replaces any mid-page split
+        updated[currentChapterIndex].endOffset = undefined
+
         // Automatically set next chapter's start page
         if (nextChapterIndex < updated.length) {
           updated[nextChapterIndex] = {
             ...updated[nextChapterIndex],
-            startPage: value + 1
+            startPage: value + 1,
+            startOffset: undefined
           }
         }
       }
 
       // Handle automatic sequencing when start page changes
-      if (field === 'startPage' && typeof value === 'number' && currentChapterIndex > 0) {
-        const prevChapterIndex = currentChapterIndex - 1
-        
+      if (field === 'startPage' && typeof value === 'number') {
+        updated[currentChapterIndex].startOffset = undefined
+
         // Automatically set previous chapter's end page
-        if (value > 1) {
-          updated[prevChapterIndex] = {
-            ...updated[prevChapterIndex],
-            endPage: value - 1
+        if (currentChapterIndex > 0 && value > 1) {
+          updated[currentChapterIndex - 1] = {
+            ...updated[currentChapterIndex - 1],
+            endPage: value - 1,
+            endOffset: undefined
           }
         }
       }
@@ -155,6 +297,89 @@ export default function NewChapterBoundaryEditor({
     })
   }
 
+  // Start the selected chapter at a line partway down a page; the previous
+  // chapter then ends on that same page just before it
+  const splitChapterAt = (page: number, offset: number) => {
+    setChapters(prev => {
+      const updated = [...prev]
+      const current = updated[selectedChapter]
+      if (!current) return updated
+
+      updated[selectedChapter] = {
+        ...current,
+        startPage: page,
+        startOffset: offset > 0 ? offset : undefined
+      }
+
+      if (selectedChapter > 0) {
+        updated[selectedChapter - 1] = {
+          ...updated[selectedChapter - 1],
+          endPage: offset > 0 ? page : page - 1,
+          endOffset: offset > 0 ? offset : undefined
+        }
+      }
+
+      return updated
+    })
+  }
+
+  // Accepting a candidate starts a chapter on its page; rejecting it merges
+  // the chapter that starts there back into the one before
+  const toggleCandidate = (candidate: ChapterCandidate) => {
+    setChapters(prev => {
+      const updated = [...prev]
+      const startIndex = prev.findIndex(c => c.startPage === candidate.page)
+
+      if (startIndex === 0) return prev
+      if (startIndex > 0) {
+        updated[startIndex - 1] = {
+          ...updated[startIndex - 1],
+          endPage: prev[startIndex].endPage,
+          endOffset: prev[startIndex].endOffset
+        }
+        updated.splice(startIndex, 1)
+        return updated
+      }
+
+      const containingIndex = prev.findIndex(c => candidate.page > c.startPage && candidate.page <= c.endPage)
+      if (containingIndex === -1) return prev
+
+      const containing = prev[containingIndex]
+      updated.splice(containingIndex, 1, { ...containing, endPage: candidate.page - 1, endOffset: undefined }, {
+        id: Math.max(...prev.map(c => c.id)) + 1,
+        title: candidate.line || `Chapter ${containingIndex + 2}`,
+        startPage: candidate.page,
+        endPage: containing.endPage,
+        endOffset: containing.endOffset
+      })
+      return updated
+    })
+  }
+
+  const findNextChapterStart = async () => {
+    try {
+      setFindingNext(true)
+      setFindNextMessage(null)
+
+      const candidate = await pdfService.findNextChapterStart(file, currentPage)
+      if (!candidate) {
+        setFindNextMessage(`No likely chapter start after page ${currentPage}`)
+        return
+      }
+
+      setCandidateList(prev => prev.some(c => c.page === candidate.page)
+        ? prev
+        : [...prev, candidate].sort((a, b) => a.page - b.page))
+      setSidebarView('candidates')
+      goToPage(candidate.page)
+    } catch (err) {
+      console.error('Error searching for chapter start:', err)
+      setFindNextMessage('Search failed')
+    } finally {
+      setFindingNext(false)
+    }
+  }
+
   const addChapter = () => {
     const newId = Math.max(...chapters.map(c => c.id)) + 1
     const lastChapter = chapters[chapters.length - 1]
@@ -194,6 +419,9 @@ export default function NewChapterBoundaryEditor({
         !chapter.startPage || 
         !chapter.endPage || 
         chapter.startPage > chapter.endPage ||
+        (chapter.startPage === chapter.endPage &&
+          chapter.endOffset !== undefined &&
+          (chapter.startOffset ?? 0) >= chapter.endOffset) ||
         chapter.startPage < 1 ||
         chapter.endPage > totalPages
       )
@@ -212,14 +440,22 @@ export default function NewChapterBoundaryEditor({
         const current = chapters[i]
         const next = chapters[i + 1]
         
-        if (current.endPage >= next.startPage) {
+        // Two chapters may share a page when it is split between them
+        const splitPage = current.endPage === next.startPage &&
+          current.endOffset !== undefined &&
+          next.startOffset !== undefined &&
+          current.endOffset <= next.startOffset
+
+        if (current.endPage >= next.startPage && !splitPage) {
           alert(`Chapter overlap detected: ${current.title} ends on page ${current.endPage} but ${next.title} starts on page ${next.startPage}`)
           return
         }
       }
 
       // Safari-compatible: Create boundaries array step by step
-      const sortedChapters = [...chapters].sort((a, b) => a.startPage - b.startPage)
+      const sortedChapters = [...chapters].sort((a, b) =>
+        a.startPage - b.startPage || (a.startOffset ?? 0) - (b.startOffset ?? 0)
+      )
       const boundaries: ChapterBoundary[] = []
       
       for (let i = 0; i < sortedChapters.length; i++) {
@@ -227,7 +463,14 @@ export default function NewChapterBoundaryEditor({
         boundaries.push({
           chapter: i + 1,
           startPage: chapter.startPage,
-          endPage: chapter.endPage
+          endPage: chapter.endPage,
+          // Placeholder titles are not worth storing
+          ...(DEFAULT_TITLE_PATTERN.test(chapter.title.trim()) ? {} : { title: chapter.title.trim() }),
+          ...(chapter.part?.trim() ? { part: chapter.part.trim() } : {}),
+          ...(chapter.unnumbered ? { unnumbered: true } : {}),
+          ...(chapter.matter ? { matter: chapter.matter } : {}),
+          ...(chapter.startOffset !== undefined ? { startOffset: chapter.startOffset } : {}),
+          ...(chapter.endOffset !== undefined ? { endOffset: chapter.endOffset } : {})
         })
       }
       
@@ -277,13 +520,35 @@ export default function NewChapterBoundaryEditor({
     setCurrentPage(Math.max(1, Math.min(page, totalPages)))
   }
 
+  // Only worth showing when the printed number differs from the PDF page index
+  const getPrintedPageLabel = (page: number): string | null => {
+    const label = pageLabels?.[page - 1]
+    return label && label !== String(page) ? label : null
+  }
+
+  // Lowest OCR confidence among a chapter's scanned pages
+  const getChapterOcrConfidence = (chapter: ChapterEdit): number | null => {
+    const confidences = [...ocrPages.values()]
+      .filter(ocrPage => ocrPage.page >= chapter.startPage && ocrPage.page <= chapter.endPage)
+      .map(ocrPage => ocrPage.confidence)
+
+    return confidences.length > 0 ? Math.min(...confidences) : null
+  }
+
+  // Split points of the selected chapter that fall on the page being viewed
+  const selectedChapterEdit = chapters[selectedChapter]
+  const currentSplitOffsets: SplitOffsets = {
+    start: selectedChapterEdit?.startPage === currentPage ? selectedChapterEdit.startOffset : undefined,
+    end: selectedChapterEdit?.endPage === currentPage ? selectedChapterEdit.endOffset : undefined
+  }
+
   if (loading) {
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
         <div className="bg-white p-6 rounded-lg shadow-xl">
           <div className="flex items-center gap-3">
             <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
-            <span>Loading PDF...</span>
+            <span>Loading {BOOK_FORMAT_LABELS[format]}...</span>
           </div>
         </div>
       </div>
@@ -340,17 +605,105 @@ export default function NewChapterBoundaryEditor({
           <div className="w-96 bg-white border-r border-gray-200 flex flex-col">
             <div className="p-4 border-b border-gray-200">
               <div className="flex items-center justify-between">
-                <h2 className="font-semibold text-gray-900">Chapters</h2>
-                <button
-                  onClick={addChapter}
-                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
-                >
-                  Add Chapter
-                </button>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => setSidebarView('chapters')}
+                    className={`font-semibold ${sidebarView === 'chapters' ? 'text-gray-900' : 'text-gray-400 hover:text-gray-600'}`}
+                  >
+                    Chapters
+                  </button>
+                  {(candidateList.length > 0 || format === 'pdf') && (
+                    <button
+                      onClick={() => setSidebarView('candidates')}
+                      className={`font-semibold ${sidebarView === 'candidates' ? 'text-gray-900' : 'text-gray-400 hover:text-gray-600'}`}
+                    >
+                      Candidates ({candidateList.length})
+                    </button>
+                  )}
+                </div>
+                {sidebarView === 'chapters' ? (
+                  <button
+                    onClick={addChapter}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                  >
+                    Add Chapter
+                  </button>
+                ) : format === 'pdf' && (
+                  <button
+                    onClick={findNextChapterStart}
+                    disabled={findingNext}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-blue-400"
+                    title={`Scan forward from page ${currentPage} for the next page that looks like a chapter opening`}
+                  >
+                    {findingNext ? 'Searching...' : `Find next after p. ${currentPage}`}
+                  </button>
+                )}
               </div>
+              {sidebarView === 'candidates' && findNextMessage && (
+                <p className="mt-2 text-xs text-gray-500">{findNextMessage}</p>
+              )}
             </div>
 
-            <div className="flex-1 overflow-y-auto p-4">
+            {sidebarView === 'candidates' && (
+              <div className="flex-1 overflow-y-auto p-4">
+                {candidateScan === 'scanning' && (
+                  <p className="text-sm text-gray-500 mb-2">Scanning the book for more chapter starts...</p>
+                )}
+                {candidateList.length === 0 && candidateScan !== 'scanning' && (
+                  <p className="text-sm text-gray-500">
+                    No candidates yet. Use "Find next" to scan forward from the page you are viewing.
+                  </p>
+                )}
+                <div className="space-y-2">
+                  {candidateList.map(candidate => (
+                    <div
+                      key={candidate.page}
+                      className={`p-3 border rounded-lg cursor-pointer transition-colors ${
+                        candidate.page === currentPage ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                      }`}
+                      onClick={() => goToPage(candidate.page)}
+                    >
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="font-medium text-gray-700">
+                          Page {candidate.page}
+                          {getPrintedPageLabel(candidate.page) && (
+                            <span className="text-gray-400"> (p. {getPrintedPageLabel(candidate.page)})</span>
+                          )}
+                        </span>
+                        <span className="text-gray-500">
+                          {CANDIDATE_STRATEGY_LABELS[candidate.strategy] || candidate.strategy} ·{' '}
+                          <span className={candidate.confidence >= 0.7 ? 'text-green-600' : candidate.confidence >= 0.5 ? 'text-amber-600' : 'text-red-600'}>
+                            {Math.round(candidate.confidence * 100)}%
+                          </span>
+                        </span>
+                      </div>
+                      {candidate.line && (
+                        <p className="mt-1 text-sm font-medium text-gray-900 truncate" title={candidate.line}>
+                          {candidate.line}
+                        </p>
+                      )}
+                      {candidate.snippet && (
+                        <p className="mt-1 text-xs text-gray-500 line-clamp-2">{candidate.snippet}</p>
+                      )}
+                      <label
+                        className="mt-2 flex items-center gap-1 text-xs text-gray-600"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={chapters.some(chapter => chapter.startPage === candidate.page)}
+                          disabled={chapters[0]?.startPage === candidate.page}
+                          onChange={() => toggleCandidate(candidate)}
+                        />
+                        Chapter starts here
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className={`flex-1 overflow-y-auto p-4 ${sidebarView === 'chapters' ? '' : 'hidden'}`}>
               <div className="space-y-3">
                 {chapters.map((chapter, index) => (
                   <div
@@ -358,13 +711,21 @@ export default function NewChapterBoundaryEditor({
                     className={`p-4 border rounded-lg cursor-pointer transition-colors ${
                       selectedChapter === index
                         ? 'border-blue-500 bg-blue-50'
-                        : 'border-gray-200 hover:border-gray-300'
-                    }`}
+                        : chapter.matter
+                          ? 'border-gray-200 bg-gray-100 hover:border-gray-300'
+                          : 'border-gray-200 hover:border-gray-300'
+                    } ${chapter.matter ? 'opacity-60' : ''}`}
+                    title={chapter.matter ? 'Not part of the story - skipped when analyzing' : undefined}
                     onClick={() => {
                       setSelectedChapter(index)
                       goToPage(chapter.startPage)
                     }}
                   >
+                    {chapter.part && chapter.part !== chapters[index - 1]?.part && (
+                      <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-1">
+                        {chapter.part}
+                      </div>
+                    )}
                     <div className="flex items-center justify-between mb-3">
                       <input
                         type="text"
@@ -398,6 +759,16 @@ export default function NewChapterBoundaryEditor({
                           className="w-20 px-2 py-1 text-sm border border-gray-300 rounded"
                           onClick={(e) => e.stopPropagation()}
                         />
+                        {getPrintedPageLabel(chapter.startPage) && (
+                          <span className="text-xs text-gray-400" title="Printed page number">
+                            p. {getPrintedPageLabel(chapter.startPage)}
+                          </span>
+                        )}
+                        {chapter.startOffset !== undefined && (
+                          <span className="text-xs text-amber-600" title="Starts partway down the page">
+                            mid-page
+                          </span>
+                        )}
                         <button
                           onClick={(e) => {
                             e.stopPropagation()
@@ -420,6 +791,16 @@ export default function NewChapterBoundaryEditor({
                           className="w-20 px-2 py-1 text-sm border border-gray-300 rounded"
                           onClick={(e) => e.stopPropagation()}
                         />
+                        {getPrintedPageLabel(chapter.endPage) && (
+                          <span className="text-xs text-gray-400" title="Printed page number">
+                            p. {getPrintedPageLabel(chapter.endPage)}
+                          </span>
+                        )}
+                        {chapter.endOffset !== undefined && (
+                          <span className="text-xs text-amber-600" title="Ends partway down the page">
+                            mid-page
+                          </span>
+                        )}
                         <button
                           onClick={(e) => {
                             e.stopPropagation()
@@ -432,8 +813,54 @@ export default function NewChapterBoundaryEditor({
                       </div>
                     </div>
 
-                    <div className="mt-2 text-xs text-gray-500">
-                      Pages: {chapter.endPage - chapter.startPage + 1}
+                    <div className="mt-2 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <label className="text-sm text-gray-600 w-16">Part:</label>
+                        <input
+                          type="text"
+                          value={chapter.part || ''}
+                          placeholder="None"
+                          onChange={(e) => updateChapter(chapter.id, 'part', e.target.value)}
+                          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+                          onClick={(e) => e.stopPropagation()}
+                        />
+                      </div>
+                      <div className="flex items-center justify-between text-xs text-gray-500">
+                        <span>
+                          Pages: {chapter.endPage - chapter.startPage + 1}
+                          {getChapterOcrConfidence(chapter) !== null && (
+                            <OcrConfidenceBadge
+                              confidence={getChapterOcrConfidence(chapter)!}
+                              title="Lowest OCR confidence on this chapter's scanned pages"
+                            />
+                          )}
+                        </span>
+                        <label
+                          className="flex items-center gap-1"
+                          title="Prologues, epilogues and interludes sit outside the chapter numbering"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={Boolean(chapter.unnumbered)}
+                            onChange={(e) => updateChapter(chapter.id, 'unnumbered', e.target.checked)}
+                          />
+                          Unnumbered
+                        </label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <label className="text-sm text-gray-600 w-16">Content:</label>
+                        <select
+                          value={chapter.matter || ''}
+                          onChange={(e) => updateChapter(chapter.id, 'matter', e.target.value)}
+                          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <option value="">Story</option>
+                          <option value="front">Front matter (not analyzed)</option>
+                          <option value="back">Back matter (not analyzed)</option>
+                        </select>
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -441,14 +868,29 @@ export default function NewChapterBoundaryEditor({
             </div>
           </div>
 
-          {/* Right Side - PDF Viewer */}
+          {/* Right Side - Source Viewer */}
           <div className="flex-1 bg-gray-50 flex flex-col">
-            <PDFViewer
-              pdfDocument={pdfDocument}
-              currentPage={currentPage}
-              totalPages={totalPages}
-              onPageChange={setCurrentPage}
-            />
+            {format !== 'pdf' && textSource ? (
+              <SectionTextViewer
+                source={textSource}
+                currentPage={currentPage}
+                totalPages={totalPages}
+                splitOffsets={currentSplitOffsets}
+                onPageChange={setCurrentPage}
+                onSplitSelect={(offset) => splitChapterAt(currentPage, offset)}
+              />
+            ) : (
+              <PDFViewer
+                pdfDocument={pdfDocument}
+                currentPage={currentPage}
+                totalPages={totalPages}
+                printedPageLabel={getPrintedPageLabel(currentPage)}
+                ocrPage={ocrPages.get(currentPage)}
+                splitOffsets={currentSplitOffsets}
+                onPageChange={setCurrentPage}
+                onSplitSelect={(offset) => splitChapterAt(currentPage, offset)}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -461,12 +903,36 @@ interface PDFViewerProps {
   pdfDocument: any
   currentPage: number
   totalPages: number
+  printedPageLabel?: string | null
+  ocrPage?: OcrPage
+  splitOffsets: SplitOffsets
   onPageChange: (page: number) => void
+  onSplitSelect: (offset: number) => void
+}
+
+// Text line positions in canvas pixels, used to pick split points by clicking
+interface LineBox {
+  offset: number
+  top: number
+  bottom: number
 }
 
-function PDFViewer({ pdfDocument, currentPage, totalPages, onPageChange }: PDFViewerProps) {
+const PDF_RENDER_SCALE = 1.2
+
+function PDFViewer({
+  pdfDocument,
+  currentPage,
+  totalPages,
+  printedPageLabel,
+  ocrPage,
+  splitOffsets,
+  onPageChange,
+  onSplitSelect
+}: PDFViewerProps) {
   const [canvas, setCanvas] = useState<HTMLCanvasElement | null>(null)
   const [rendering, setRendering] = useState(false)
+  const [lineBoxes, setLineBoxes] = useState<LineBox[]>([])
+  const [hoveredLine, setHoveredLine] = useState<LineBox | null>(null)
 
   const renderPage = useCallback(async () => {
     if (!canvas || !pdfDocument || rendering) return
@@ -476,7 +942,7 @@ function PDFViewer({ pdfDocument, currentPage, totalPages, onPageChange }: PDFVi
       const page = await pdfDocument.getPage(currentPage)
       const context = canvas.getContext('2d')!
       
-      const viewport = page.getViewport({ scale: 1.2 })
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE })
       canvas.width = viewport.width
       canvas.height = viewport.height
 
@@ -485,17 +951,43 @@ function PDFViewer({ pdfDocument, currentPage, totalPages, onPageChange }: PDFVi
         viewport
       }).promise
 
+      // Scanned pages have no text layer; their lines come from OCR instead
+      const { lines } = ocrPage?.layout || await getPageTextLayout(page)
+      setLineBoxes(lines.map(line => {
+        const [, baseline] = viewport.convertToViewportPoint(line.x, line.y)
+        return {
+          offset: line.offset,
+          top: baseline - line.height * PDF_RENDER_SCALE,
+          bottom: baseline + line.height * PDF_RENDER_SCALE * 0.25
+        }
+      }))
+
       setRendering(false)
     } catch (error) {
       console.error('Error rendering page:', error)
       setRendering(false)
     }
-  }, [canvas, pdfDocument, currentPage, rendering])
+  }, [canvas, pdfDocument, currentPage, ocrPage, rendering])
 
   useEffect(() => {
     renderPage()
   }, [renderPage])
 
+  const findLineAt = (event: React.MouseEvent<HTMLCanvasElement>): LineBox | null => {
+    if (!canvas || lineBoxes.length === 0) return null
+
+    const rect = canvas.getBoundingClientRect()
+    const y = (event.clientY - rect.top) * (canvas.height / rect.height)
+
+    return lineBoxes.find(line => y >= line.top && y <= line.bottom) || null
+  }
+
+  const markerTop = (offset?: number) =>
+    offset === undefined ? undefined : lineBoxes.find(line => line.offset === offset)?.top
+
+  const startMarkerTop = markerTop(splitOffsets.start)
+  const endMarkerTop = markerTop(splitOffsets.end)
+
   return (
     <div className="h-full flex flex-col">
       {/* PDF Controls */}
@@ -520,6 +1012,14 @@ function PDFViewer({ pdfDocument, currentPage, totalPages, onPageChange }: PDFVi
               className="w-16 px-2 py-1 text-sm border border-gray-300 rounded text-center"
             />
             <span className="text-sm text-gray-600">of {totalPages}</span>
+            {printedPageLabel && (
+              <span className="text-sm text-gray-400" title="Printed page number">
+                (printed p. {printedPageLabel})
+              </span>
+            )}
+            {ocrPage && (
+              <OcrConfidenceBadge confidence={ocrPage.confidence} title="Scanned page, read with OCR" />
+            )}
           </div>
 
           <button
@@ -535,14 +1035,165 @@ function PDFViewer({ pdfDocument, currentPage, totalPages, onPageChange }: PDFVi
       {/* PDF Display */}
       <div className="flex-1 overflow-auto p-4">
         <div className="flex justify-center">
-          <div className="border border-gray-300 shadow-lg">
+          <div className="relative border border-gray-300 shadow-lg">
             <canvas
               ref={setCanvas}
-              className={`block ${rendering ? 'opacity-50' : ''}`}
+              className={`block cursor-pointer ${rendering ? 'opacity-50' : ''}`}
+              onMouseMove={(e) => setHoveredLine(findLineAt(e))}
+              onMouseLeave={() => setHoveredLine(null)}
+              onClick={(e) => {
+                const line = findLineAt(e)
+                if (line) onSplitSelect(line.offset)
+              }}
+            />
+            {hoveredLine && (
+              <div
+                className="absolute left-0 right-0 bg-blue-200 bg-opacity-40 pointer-events-none"
+                style={{ top: hoveredLine.top, height: hoveredLine.bottom - hoveredLine.top }}
+              />
+            )}
+            {startMarkerTop !== undefined && (
+              <div className="absolute left-0 right-0 border-t-2 border-green-500 pointer-events-none" style={{ top: startMarkerTop }} />
+            )}
+            {endMarkerTop !== undefined && (
+              <div className="absolute left-0 right-0 border-t-2 border-red-500 pointer-events-none" style={{ top: endMarkerTop }} />
+            )}
+          </div>
+        </div>
+        <p className="mt-2 text-center text-xs text-gray-500">
+          Click a heading line to start the selected chapter there
+        </p>
+      </div>
+    </div>
+  )
+}
+
+function OcrConfidenceBadge({ confidence, title }: { confidence: number; title: string }) {
+  return (
+    <span
+      className={`ml-2 text-xs ${confidence < LOW_OCR_CONFIDENCE ? 'text-red-600' : 'text-gray-400'}`}
+      title={title}
+    >
+      OCR {Math.round(confidence)}%
+    </span>
+  )
+}
+
+// Text preview for reflowable formats, one section per "page"
+interface SectionTextViewerProps {
+  source: SectionTextSource
+  currentPage: number
+  totalPages: number
+  splitOffsets: SplitOffsets
+  onPageChange: (page: number) => void
+  onSplitSelect: (offset: number) => void
+}
+
+function SectionTextViewer({
+  source,
+  currentPage,
+  totalPages,
+  splitOffsets,
+  onPageChange,
+  onSplitSelect
+}: SectionTextViewerProps) {
+  const [text, setText] = useState('')
+  const [loadingText, setLoadingText] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadText = async () => {
+      try {
+        setLoadingText(true)
+        const sectionText = await source.extractTextFromSection(currentPage)
+        if (!cancelled) setText(sectionText)
+      } catch (error) {
+        console.error('Error loading section text:', error)
+        if (!cancelled) setText('')
+      } finally {
+        if (!cancelled) setLoadingText(false)
+      }
+    }
+
+    loadText()
+    return () => {
+      cancelled = true
+    }
+  }, [source, currentPage])
+
+  const sectionTitle = source.getSectionTitle(currentPage)
+
+  // Paragraph offsets into the section text, which is what split offsets refer to
+  let paragraphOffset = 0
+  const paragraphs = text.split('\n').map(paragraph => {
+    const offset = paragraphOffset
+    paragraphOffset += paragraph.length + 1
+    return { paragraph, offset }
+  })
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Section Controls */}
+      <div className="bg-white border-b border-gray-200 px-4 py-3">
+        <div className="flex items-center justify-center gap-4">
+          <button
+            onClick={() => onPageChange(currentPage - 1)}
+            disabled={currentPage <= 1}
+            className="px-3 py-1 text-sm border border-gray-300 rounded disabled:opacity-50 hover:bg-gray-50"
+          >
+            ← Previous
+          </button>
+          
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600">Section</span>
+            <input
+              type="number"
+              min="1"
+              max={totalPages}
+              value={currentPage}
+              onChange={(e) => onPageChange(parseInt(e.target.value) || 1)}
+              className="w-16 px-2 py-1 text-sm border border-gray-300 rounded text-center"
             />
+            <span className="text-sm text-gray-600">of {totalPages}</span>
           </div>
+
+          <button
+            onClick={() => onPageChange(currentPage + 1)}
+            disabled={currentPage >= totalPages}
+            className="px-3 py-1 text-sm border border-gray-300 rounded disabled:opacity-50 hover:bg-gray-50"
+          >
+            Next →
+          </button>
         </div>
+        {sectionTitle && (
+          <p className="mt-2 text-center text-sm font-medium text-gray-700">{sectionTitle}</p>
+        )}
+      </div>
+
+      {/* Section Text */}
+      <div className="flex-1 overflow-auto p-4">
+        <div className={`max-w-2xl mx-auto bg-white border border-gray-300 shadow-lg p-6 ${loadingText ? 'opacity-50' : ''}`}>
+          {text ? (
+            paragraphs.map(({ paragraph, offset }) => (
+              <p
+                key={offset}
+                onClick={() => onSplitSelect(offset)}
+                className={`text-sm text-gray-800 mb-3 leading-relaxed cursor-pointer hover:bg-blue-50 ${
+                  offset === splitOffsets.start ? 'border-t-2 border-green-500 pt-1' : ''
+                } ${offset === splitOffsets.end ? 'border-t-2 border-red-500 pt-1' : ''}`}
+              >
+                {paragraph}
+              </p>
+            ))
+          ) : (
+            <p className="text-sm text-gray-500 italic">This section has no text.</p>
+          )}
+        </div>
+        <p className="mt-2 text-center text-xs text-gray-500">
+          Click a paragraph to start the selected chapter there
+        </p>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,288 @@
+import { useEffect, useRef, useState } from 'react'
+import { Book, BookFormat, ChapterBoundary, IngestionProgress } from '../types'
+import { bookService, characterService, getSourceService } from '../db/services'
+import { ACCEPTED_BOOK_EXTENSIONS, getBookFormat } from '../services/bookFormat'
+import { ChapterMatch, getUncertainChapters } from '../utils/chapterAlignment'
+import { getChapterLabel } from '../utils/chapterBoundaries'
+
+interface ReplaceSourceFileDialogProps {
+  book: Book
+  onClose: () => void
+  onReplaced: (book: Book) => void
+}
+
+export default function ReplaceSourceFileDialog({ book, onClose, onReplaced }: ReplaceSourceFileDialogProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [format, setFormat] = useState<BookFormat>(book.format)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [processingStep, setProcessingStep] = useState('')
+  const [progress, setProgress] = useState<IngestionProgress | null>(null)
+  const [newChapters, setNewChapters] = useState<ChapterBoundary[]>([])
+  const [matches, setMatches] = useState<ChapterMatch[] | null>(null)
+  const [selectedMatches, setSelectedMatches] = useState<Map<number, number | null>>(new Map())
+  const [analyzedChapters, setAnalyzedChapters] = useState<Set<number>>(new Set())
+  const [error, setError] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    characterService.getAnalyzedChapters(book.id)
+      .then(setAnalyzedChapters)
+      .catch(loadError => console.warn('Error loading analyzed chapters:', loadError))
+  }, [book.id])
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = event.target.files?.[0]
+    const selectedFormat = selectedFile ? getBookFormat(selectedFile) : null
+    if (selectedFile && selectedFormat) {
+      setFile(selectedFile)
+      setFormat(selectedFormat)
+      setMatches(null)
+      setError(null)
+    } else {
+      alert('Please select a PDF, EPUB, text or Markdown file')
+    }
+  }
+
+  const handleCompare = async () => {
+    if (!file) return
+
+    setIsProcessing(true)
+    setError(null)
+
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    const options = {
+      signal: abortController.signal,
+      onProgress: (update: IngestionProgress) => {
+        setProgress(update)
+        setProcessingStep(update.page > 0
+          ? `Scanning page ${update.page}/${update.totalPages} - ${update.stage.toLowerCase()}`
+          : `${update.stage}...`)
+      }
+    }
+
+    try {
+      setProcessingStep('Finding chapters in the new file...')
+      const { chapterBoundaries } = await getSourceService(format).processBookFile(file, options)
+
+      setProcessingStep('Comparing chapters with the current file...')
+      const alignment = await bookService.alignReplacementChapters(book, file, chapterBoundaries, options)
+
+      setNewChapters(chapterBoundaries)
+      setMatches(alignment)
+      setSelectedMatches(new Map(alignment.map(match => [match.oldChapter, match.newChapter])))
+    } catch (compareError) {
+      if (!abortController.signal.aborted) {
+        console.error('Error comparing book files:', compareError)
+        setError(compareError instanceof Error ? compareError.message : 'Failed to read the new file')
+      }
+    } finally {
+      abortControllerRef.current = null
+      setProgress(null)
+      setProcessingStep('')
+      setIsProcessing(false)
+      getSourceService(format).cleanup()
+    }
+  }
+
+  const handleReplace = async () => {
+    if (!file || !matches) return
+
+    setIsProcessing(true)
+    setProcessingStep('Replacing file and moving character data...')
+    setError(null)
+
+    try {
+      onReplaced(await bookService.replaceSourceFile(
+        book.id,
+        file,
+        newChapters,
+        selectedMatches,
+        getUncertainChapters(matches, selectedMatches)
+      ))
+    } catch (replaceError) {
+      console.error('Error replacing book file:', replaceError)
+      setError(replaceError instanceof Error ? replaceError.message : 'Failed to replace the book file')
+      setIsProcessing(false)
+      setProcessingStep('')
+    }
+  }
+
+  // Only chapters with analysis need a home in the new edition
+  const reviewMatches = (matches || [])
+    .filter(match => analyzedChapters.has(match.oldChapter))
+    .sort((a, b) => Number(a.newChapter !== null) - Number(b.newChapter !== null) || a.oldChapter - b.oldChapter)
+  const unmatchedCount = reviewMatches.filter(match => selectedMatches.get(match.oldChapter) == null).length
+
+  // Chapters keep their order, so a pick has to fall between the new chapters
+  // of its matched neighbours
+  const getPickableChapters = (oldChapter: number) => {
+    let first = -Infinity
+    let last = Infinity
+    for (const [other, selected] of selectedMatches) {
+      if (selected == null) continue
+      if (other < oldChapter) first = Math.max(first, selected)
+      if (other > oldChapter) last = Math.min(last, selected)
+    }
+    return newChapters.filter(boundary => boundary.chapter >= first && boundary.chapter <= last)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Replace Book File</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Use a better scan or a new edition and keep the analysis of {book.title}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            disabled={isProcessing}
+          >
+            <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              New Book File (PDF, EPUB, TXT or Markdown)
+            </label>
+            <input
+              type="file"
+              accept={ACCEPTED_BOOK_EXTENSIONS}
+              onChange={handleFileSelect}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={isProcessing}
+            />
+          </div>
+
+          {isProcessing && (
+            <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
+              <div className="flex items-center">
+                <div className="animate-spin h-5 w-5 border-2 border-blue-600 border-t-transparent rounded-full mr-3"></div>
+                <span className="text-blue-800 flex-1">{processingStep}</span>
+                {abortControllerRef.current && (
+                  <button
+                    onClick={() => abortControllerRef.current?.abort()}
+                    className="text-sm text-blue-700 hover:text-blue-900 underline ml-3"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+              {progress && progress.totalPages > 0 && (
+                <div className="w-full bg-blue-100 rounded-full h-1.5 mt-3">
+                  <div
+                    className="bg-blue-600 h-1.5 rounded-full transition-all duration-200"
+                    style={{ width: `${(progress.page / progress.totalPages) * 100}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-800">
+              {error}
+            </div>
+          )}
+
+          {matches && !isProcessing && (
+            <div className="space-y-3">
+              <div className={`${unmatchedCount > 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'} border rounded-md p-4 text-sm`}>
+                <p className={`font-medium ${unmatchedCount > 0 ? 'text-yellow-800' : 'text-green-800'}`}>
+                  Found {newChapters.length} chapters in the new file.{' '}
+                  {reviewMatches.length - unmatchedCount} of {reviewMatches.length} analyzed chapters matched.
+                </p>
+                {unmatchedCount > 0 && (
+                  <p className="text-yellow-700 mt-1">
+                    Pick the new chapter for each unmatched one, or leave it unmatched to drop its chapter notes.
+                    Characters first seen there move to the next matched chapter.
+                  </p>
+                )}
+                <p className="text-gray-600 mt-1">
+                  Weak matches and chapters you pick yourself will be marked for re-analysis.
+                </p>
+              </div>
+
+              {reviewMatches.length > 0 && (
+                <div className="border rounded-md divide-y max-h-80 overflow-y-auto">
+                  {reviewMatches.map(match => {
+                    const selected = selectedMatches.get(match.oldChapter) ?? null
+                    return (
+                      <div
+                        key={match.oldChapter}
+                        className={`flex items-center justify-between gap-3 px-3 py-2 text-sm ${selected === null ? 'bg-yellow-50' : ''}`}
+                      >
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 truncate">
+                            {getChapterLabel(book.chapterBoundaries, match.oldChapter)}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {match.newChapter === null
+                              ? 'No match found'
+                              : `${Math.round(match.score * 100)}% similar to the suggested chapter`}
+                          </p>
+                        </div>
+                        <select
+                          value={selected ?? ''}
+                          onChange={(e) => {
+                            const next = new Map(selectedMatches)
+                            next.set(match.oldChapter, e.target.value ? parseInt(e.target.value) : null)
+                            setSelectedMatches(next)
+                          }}
+                          className="px-2 py-1 border border-gray-300 rounded text-sm max-w-[50%]"
+                        >
+                          <option value="">Unmatched</option>
+                          {getPickableChapters(match.oldChapter).map(boundary => (
+                            <option key={boundary.chapter} value={boundary.chapter}>
+                              {getChapterLabel(newChapters, boundary.chapter)} (p. {boundary.startPage})
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            {matches ? (
+              <button
+                onClick={handleReplace}
+                disabled={isProcessing}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white py-2 px-4 rounded-md transition-colors font-medium"
+              >
+                Replace File
+              </button>
+            ) : (
+              <button
+                onClick={handleCompare}
+                disabled={!file || isProcessing}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white py-2 px-4 rounded-md transition-colors font-medium"
+              >
+                {isProcessing ? 'Comparing...' : 'Compare Chapters'}
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              disabled={isProcessing}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors font-medium disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,19 @@
 import Dexie, { Table } from 'dexie'
-import { Book, Character, Settings } from '../types'
+import { AnalysisJob, AnalysisRun, ApiCredential, Book, Character, ChapterText, OcrPage, PageText, Settings } from '../types'
+import { seedAttributeHistory } from '../utils/characterProjection'
+import { mergeRelationships } from '../utils/relationshipStates'
+import { addRelationKinds } from '../utils/relationKinds'
 
 export class BookCharacterDB extends Dexie {
   books!: Table<Book>
   characters!: Table<Character>
   settings!: Table<Settings>
+  pageTexts!: Table<PageText>
+  chapterTexts!: Table<ChapterText>
+  ocrPages!: Table<OcrPage>
+  credentials!: Table<ApiCredential>
+  analysisJobs!: Table<AnalysisJob>
+  analysisRuns!: Table<AnalysisRun>
 
   constructor() {
     super('BookCharacterDatabase')
@@ -16,6 +25,180 @@ export class BookCharacterDB extends Dexie {
       settings: 'id'
     })
 
+    // Books now store a format-neutral source blob instead of pdfBlob
+    this.version(2).stores({
+      books: 'id, fileName',
+      characters: 'id, bookId',
+      settings: 'id'
+    }).upgrade(tx => {
+      return tx.table('books').toCollection().modify(book => {
+        if (book.pdfBlob && !book.sourceBlob) {
+          book.sourceBlob = book.pdfBlob
+        }
+        delete book.pdfBlob
+        if (!book.format) {
+          book.format = 'pdf'
+        }
+      })
+    })
+
+    // Extracted text cache, so analysis does not re-parse the source file
+    this.version(3).stores({
+      books: 'id, fileName',
+      characters: 'id, bookId',
+      settings: 'id',
+      pageTexts: 'id, bookId',
+      chapterTexts: 'id, bookId'
+    })
+
+    // OCR text of scanned PDF pages
+    this.version(4).stores({
+      books: 'id, fileName',
+      characters: 'id, bookId',
+      settings: 'id',
+      pageTexts: 'id, bookId',
+      chapterTexts: 'id, bookId',
+      ocrPages: 'id, contentHash'
+    })
+
+    // Books are identified by the content hash of their source file
+    this.version(5).stores({
+      books: 'id, fileName, contentHash',
+      characters: 'id, bookId',
+      settings: 'id',
+      pageTexts: 'id, bookId',
+      chapterTexts: 'id, bookId',
+      ocrPages: 'id, contentHash'
+    })
+
+    // Users' own API keys, one per provider; keys typed into the model
+    // settings before this version move across
+    this.version(6).stores({
+      books: 'id, fileName, contentHash',
+      characters: 'id, bookId',
+      settings: 'id',
+      pageTexts: 'id, bookId',
+      chapterTexts: 'id, bookId',
+      ocrPages: 'id, contentHash',
+      credentials: 'id'
+    }).upgrade(async tx => {
+      const settings = await tx.table('settings').get('settings')
+      if (settings?.llm?.apiKey) {
+        await tx.table('credentials').put({
+          id: settings.llm.provider,
+          apiKey: settings.llm.apiKey,
+          updatedAt: new Date().toISOString()
+        })
+        delete settings.llm.apiKey
+        await tx.table('settings').put(settings)
+      }
+    })
+
+    this.version(7).stores({
+      books: 'id, fileName, contentHash',
+      characters: 'id, bookId',
+      settings: 'id',
+      pageTexts: 'id, bookId',
+      chapterTexts: 'id, bookId',
+      ocrPages: 'id, contentHash',
+      credentials: 'id',
+      analysisJobs: 'id, status'
+    })
+
+    // Chapters analyzed before runs were recorded get a legacy run each,
+    // found the way analyzed chapters used to be: from character history
+    this.version(8).stores({
+      books: 'id, fileName, contentHash',
+      characters: 'id, bookId',
+      settings: 'id',
+      pageTexts: 'id, bookId',
+      chapterTexts: 'id, bookId',
+      ocrPages: 'id, contentHash',
+      credentials: 'id',
+      analysisJobs: 'id, status',
+      analysisRuns: 'id, bookId, [bookId+chapter]'
+    }).upgrade(async tx => {
+      const characters: Character[] = await tx.table('characters').toArray()
+      const chaptersByBook = new Map<string, Set<number>>()
+
+      for (const character of characters) {
+        const chapters = chaptersByBook.get(character.bookId) || new Set<number>()
+        chapters.add(character.firstAppearance)
+        character.chapterHistory.forEach(history => chapters.add(history.chapter))
+        chaptersByBook.set(character.bookId, chapters)
+      }
+
+      const createdAt = new Date().toISOString()
+      const runs: AnalysisRun[] = [...chaptersByBook].flatMap(([bookId, chapters]) =>
+        [...chapters].map(chapter => ({
+          id: crypto.randomUUID(),
+          bookId,
+          chapter,
+          promptVersion: 0,
+          createdAt,
+          rawResponses: [],
+          changes: [],
+          legacy: true
+        }))
+      )
+      await tx.table('analysisRuns').bulkAdd(runs)
+    })
+
+    // Date each character's attributes so views can show them as of a chapter
+    this.version(9).stores({
+      books: 'id, fileName, contentHash',
+      characters: 'id, bookId',
+      settings: 'id',
+      pageTexts: 'id, bookId',
+      chapterTexts: 'id, bookId',
+      ocrPages: 'id, contentHash',
+      credentials: 'id',
+      analysisJobs: 'id, status',
+      analysisRuns: 'id, bookId, [bookId+chapter]'
+    }).upgrade(tx =>
+      tx.table('characters').toCollection().modify((character: Character) => {
+        if (!character.attributeHistory) {
+          Object.assign(character, seedAttributeHistory(character))
+        }
+      })
+    )
+
+    // Relationships become one per target with dated states. A pair stored
+    // under several types becomes a sequence by chapter; where two share a
+    // chapter, the one stored last stands.
+    this.version(10).stores({
+      books: 'id, fileName, contentHash',
+      characters: 'id, bookId',
+      settings: 'id',
+      pageTexts: 'id, bookId',
+      chapterTexts: 'id, bookId',
+      ocrPages: 'id, contentHash',
+      credentials: 'id',
+      analysisJobs: 'id, status',
+      analysisRuns: 'id, bookId, [bookId+chapter]'
+    }).upgrade(tx =>
+      tx.table('characters').toCollection().modify((character: Character) => {
+        character.relationships = mergeRelationships(character.relationships, character.id)
+      })
+    )
+
+    // Relationships whose description names a directed kind get it, and the
+    // target gets the inverse
+    this.version(11).stores({
+      books: 'id, fileName, contentHash',
+      characters: 'id, bookId',
+      settings: 'id',
+      pageTexts: 'id, bookId',
+      chapterTexts: 'id, bookId',
+      ocrPages: 'id, contentHash',
+      credentials: 'id',
+      analysisJobs: 'id, status',
+      analysisRuns: 'id, bookId, [bookId+chapter]'
+    }).upgrade(async tx => {
+      const characters: Character[] = await tx.table('characters').toArray()
+      await tx.table('characters').bulkPut(addRelationKinds(characters))
+    })
+
     // Safari-compatible: Handle ready event
     this.on('ready', () => {
       if (console && console.log) {
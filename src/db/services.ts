@@ -1,6 +1,47 @@
 import { db } from './database'
-import { Book, Character, ChapterBoundary } from '../types'
-import { PDFProcessor } from '../services/pdfProcessor'
+import {
+  AnalysisJob,
+  AnalysisRun,
+  ApiCredential,
+  ApiKeyStatus,
+  Book,
+  BookFormat,
+  Character,
+  ChapterBoundary,
+  ChapterCandidate,
+  ChapterDetectionStrategy,
+  ChapterText,
+  ExtractedBookText,
+  IngestionOptions,
+  LlmProviderType,
+  LlmSettings,
+  OcrPage,
+  PageText,
+  Settings
+} from '../types'
+import { PDFProcessor, PageTextLayout } from '../services/pdfProcessor'
+import { OcrProcessor } from '../services/ocrProcessor'
+import { PdfWorkerRequest, PdfWorkerResponse } from '../workers/pdfWorker'
+import { EpubProcessor } from '../services/epubProcessor'
+import { TextProcessor } from '../services/textProcessor'
+import { DEFAULT_LLM_SETTINGS, LLM_PROVIDER_DEFAULTS } from '../services/llmProviders'
+import { decryptSecret, encryptSecret } from '../utils/secretCrypto'
+import { BOOK_FORMAT_MIME_TYPES, BOOK_FORMAT_SIGNATURES, getBookFormat } from '../services/bookFormat'
+import { hashBlob } from '../utils/contentHash'
+import { getBoundaryKey, isAnalyzableChapter } from '../utils/chapterBoundaries'
+import { AlignableChapter, ChapterMatch, alignChapters } from '../utils/chapterAlignment'
+import {
+  ChapterMapping,
+  getChangedChapters,
+  mapChaptersByPageOverlap,
+  remapChapter,
+  remapChapterList,
+  remapCharacter,
+  remapJob
+} from '../utils/chapterMapping'
+import { diffCharacter, redirectRunChanges, remapRuns, revertRun } from '../utils/analysisRuns'
+import { mergeAttributeHistories, projectCharacterToChapter, syncLatestAttributes } from '../utils/characterProjection'
+import { mergeRelationships } from '../utils/relationshipStates'
 
 export class BookService {
   async createBook(
@@ -18,23 +59,25 @@ export class BookService {
         
         // Validate file before processing
         if (!file || file.size === 0) {
-          throw new Error('PDF file is empty or invalid')
+          throw new Error('Book file is empty or invalid')
         }
         
-        if (!file.type.includes('pdf')) {
-          throw new Error('File must be a PDF')
+        const format = getBookFormat(file)
+        if (!format) {
+          throw new Error('File must be a PDF, EPUB, text or Markdown file')
         }
+        const mimeType = BOOK_FORMAT_MIME_TYPES[format]
 
         // Safari-compatible: Handle large files differently
         const isSafari = /^((?!chrome|android).)*safari/i.test(navigator.userAgent)
         const maxSafariBlob = 50 * 1024 * 1024 // 50MB limit for Safari
         
         if (isSafari && file.size > maxSafariBlob) {
-          throw new Error('File too large for Safari. Please use a smaller PDF file.')
+          throw new Error('File too large for Safari. Please use a smaller file.')
         }
 
         // Safari-compatible blob creation
-        let pdfBlob: Blob
+        let sourceBlob: Blob
         
         try {
           if (isSafari) {
@@ -48,20 +91,20 @@ export class BookService {
               chunks.push(arrayBuffer)
             }
             
-            pdfBlob = new Blob(chunks, { type: 'application/pdf' })
+            sourceBlob = new Blob(chunks, { type: mimeType })
           } else {
             // Other browsers: Direct conversion
             const arrayBuffer = await file.arrayBuffer()
-            pdfBlob = new Blob([arrayBuffer], { type: 'application/pdf' })
+            sourceBlob = new Blob([arrayBuffer], { type: mimeType })
           }
           
           // Safari-compatible validation
-          if (pdfBlob.size === 0) {
-            throw new Error('PDF blob creation failed')
+          if (sourceBlob.size === 0) {
+            throw new Error('Book blob creation failed')
           }
           
         } catch (blobError) {
-          throw new Error(`Failed to process PDF file: ${blobError instanceof Error ? blobError.message : 'Unknown error'}`)
+          throw new Error(`Failed to process book file: ${blobError instanceof Error ? blobError.message : 'Unknown error'}`)
         }
 
         // Safari-compatible ID generation
@@ -74,11 +117,14 @@ export class BookService {
           title,
           author,
           fileName: file.name,
-          pdfBlob,
+          format,
+          sourceBlob,
           totalChapters: chapterBoundaries.length,
-          currentChapter: 1,
+          // Open at the story rather than the copyright page
+          currentChapter: chapterBoundaries.find(isAnalyzableChapter)?.chapter ?? 1,
           chapterBoundaries,
-          uploadDate: new Date().toISOString()
+          uploadDate: new Date().toISOString(),
+          contentHash: await hashBlob(sourceBlob)
         }
 
         // Safari-compatible database transaction
@@ -128,11 +174,9 @@ export class BookService {
         // Safari-compatible: Prevent duplicate creation with explicit book management
         let transactionResult = null
         
-        // Step 1: Clean up any existing duplicates BEFORE updating
-        await this.removeDuplicateBooks()
-        
-        // Step 2: Use more explicit transaction to prevent Safari issues
-        const tx = db.transaction('rw', db.books, async () => {
+        // Use an explicit transaction to prevent Safari issues. Characters are
+        // remapped in the same transaction so they never point at stale chapters.
+        const tx = db.transaction('rw', [db.books, db.characters, db.analysisRuns, db.analysisJobs], async () => {
           // Get the current book within transaction
           const currentBook = await db.books.get(bookId)
           
@@ -146,9 +190,7 @@ export class BookService {
           
           // Safari-compatible: Create complete updated book object
           const updatedBook = {
-            ...currentBook, // Keep all existing properties
-            chapterBoundaries: [...chapterBoundaries], // Update only chapter boundaries
-            totalChapters: chapterBoundaries.length,
+            ...await this.applyBoundaryEdit(currentBook, chapterBoundaries),
             // Ensure we keep the same ID and don't create duplicates
             id: bookId
           }
@@ -156,24 +198,6 @@ export class BookService {
           // Safari-compatible: Use put instead of update to ensure exact replacement
           await db.books.put(updatedBook)
           
-          // Verify no duplicates were created
-          const booksWithSameFilename = await db.books.where('fileName').equals(currentBook.fileName).toArray()
-          if (booksWithSameFilename.length > 1) {
-            if (console && console.warn) {
-              console.warn('BookService: Duplicate detected after update, cleaning up...')
-            }
-            
-            // Keep only the one we just updated
-            for (const book of booksWithSameFilename) {
-              if (book.id !== bookId) {
-                await db.books.delete(book.id)
-                if (console && console.log) {
-                  console.log('BookService: Removed duplicate book:', book.id)
-                }
-              }
-            }
-          }
-          
           transactionResult = 1 // Successful update
           return transactionResult
         })
@@ -184,6 +208,9 @@ export class BookService {
         if (console && console.log) {
           console.log('BookService: Transaction completed, rows affected:', transactionResult)
         }
+
+        // Cached chapter text no longer matches the new boundaries
+        await db.chapterTexts.where('bookId').equals(bookId).delete()
         
         // Safari-compatible: Force database sync with multiple verification attempts
         let verificationSuccess = false
@@ -228,6 +255,10 @@ export class BookService {
     })
   }
 
+  getSourceFile(book: Book): File {
+    return new File([book.sourceBlob], book.fileName, { type: BOOK_FORMAT_MIME_TYPES[book.format] })
+  }
+
   async getBook(bookId: string): Promise<Book | undefined> {
     return await db.books.get(bookId)
   }
@@ -237,78 +268,222 @@ export class BookService {
   }
 
   async deleteBook(bookId: string): Promise<void> {
+    const book = await db.books.get(bookId)
     // Delete all characters associated with this book
     await db.characters.where('bookId').equals(bookId).delete()
+    // Delete cached text
+    await db.pageTexts.where('bookId').equals(bookId).delete()
+    await db.chapterTexts.where('bookId').equals(bookId).delete()
+    await db.analysisJobs.delete(bookId)
+    await db.analysisRuns.where('bookId').equals(bookId).delete()
     // Delete the book
     await db.books.delete(bookId)
+    // OCR results belong to the file, so keep them while another book uses it
+    if (book?.contentHash && await db.books.where('contentHash').equals(book.contentHash).count() === 0) {
+      await db.ocrPages.where('contentHash').equals(book.contentHash).delete()
+    }
+  }
+
+  async getContentHash(book: Book): Promise<string> {
+    if (book.contentHash) return book.contentHash
+
+    const contentHash = await hashBlob(book.sourceBlob)
+    await db.books.update(book.id, { contentHash })
+    book.contentHash = contentHash
+    return contentHash
+  }
+
+  // Books stored before files were hashed get their hash the first time they load
+  async ensureContentHashes(): Promise<void> {
+    const unhashedBooks = await db.books.filter(book => !book.contentHash).toArray()
+
+    for (const book of unhashedBooks) {
+      try {
+        await this.getContentHash(book)
+      } catch (error) {
+        if (console && console.warn) {
+          console.warn('BookService: Could not hash source file of book:', book.id, error)
+        }
+      }
+    }
+  }
+
+  async findBooksByFile(file: File): Promise<Book[]> {
+    await this.ensureContentHashes()
+    return await db.books.where('contentHash').equals(await hashBlob(file)).toArray()
   }
 
-  async removeDuplicateBooks(): Promise<void> {
+  // Books made from the same file. Each copy can carry its own chapter edits
+  // and analysis, so which one to keep is left to the user.
+  async findDuplicateBooks(): Promise<Book[][]> {
+    await this.ensureContentHashes()
+    return groupDuplicateBooks(await db.books.toArray())
+  }
+
+  // Re-uploading a book's file attaches the new copy to the existing book,
+  // keeping its chapters and analysis
+  async reattachSourceFile(bookId: string, file: File): Promise<Book> {
     try {
-      const allBooks = await db.books.toArray()
-      
-      if (console && console.log) {
-        console.log('BookService: Checking for duplicates among', allBooks.length, 'books')
+      const book = await db.books.get(bookId)
+      if (!book) {
+        throw new Error(`Book with ID ${bookId} not found`)
       }
-      
-      // Group books by filename
-      const booksByFilename = new Map<string, any[]>()
-      
-      for (const book of allBooks) {
-        if (!book.fileName) continue // Skip books without filename
-        
-        if (!booksByFilename.has(book.fileName)) {
-          booksByFilename.set(book.fileName, [])
-        }
-        booksByFilename.get(book.fileName)!.push(book)
+
+      const contentHash = await hashBlob(file)
+      if (book.contentHash && book.contentHash !== contentHash) {
+        throw new Error('File does not match the book it is being attached to')
       }
-      
-      let removedCount = 0
-      
-      // Process each group of books with same filename
-      for (const [fileName, books] of booksByFilename) {
-        if (books.length > 1) {
-          if (console && console.log) {
-            console.log('BookService: Found', books.length, 'copies of:', fileName)
-          }
-          
-          // Sort by upload date (keep most recent) and by ID (consistent ordering)
-          books.sort((a, b) => {
-            const dateA = new Date(a.uploadDate || 0).getTime()
-            const dateB = new Date(b.uploadDate || 0).getTime()
-            if (dateB !== dateA) return dateB - dateA // Most recent first
-            return a.id.localeCompare(b.id) // Consistent ID ordering
-          })
-          
-          const keepBook = books[0]
-          const duplicatesToRemove = books.slice(1)
-          
-          if (console && console.log) {
-            console.log('BookService: Keeping book:', keepBook.id, 'Removing:', duplicatesToRemove.length)
-          }
-          
-          // Remove duplicates
-          for (const duplicate of duplicatesToRemove) {
-            try {
-              await this.deleteBook(duplicate.id)
-              removedCount++
-            } catch (deleteError) {
-              if (console && console.warn) {
-                console.warn('BookService: Failed to delete duplicate:', duplicate.id, deleteError)
-              }
-            }
-          }
-        }
+
+      const sourceBlob = new Blob([await file.arrayBuffer()], { type: BOOK_FORMAT_MIME_TYPES[book.format] })
+      const updatedBook: Book = { ...book, sourceBlob, fileName: file.name, contentHash }
+      await db.books.put(updatedBook)
+
+      return updatedBook
+    } catch (error) {
+      throw new Error(`Failed to reattach book file: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // Match a book's chapters against those detected in a new edition of its file
+  async alignReplacementChapters(
+    book: Book,
+    file: File,
+    chapterBoundaries: ChapterBoundary[],
+    options: IngestionOptions = {}
+  ): Promise<ChapterMatch[]> {
+    const format = getBookFormat(file)
+    if (!format) {
+      throw new Error('File must be a PDF, EPUB, text or Markdown file')
+    }
+
+    const readChapters = async (sourceFile: File, sourceFormat: BookFormat, boundaries: ChapterBoundary[]): Promise<AlignableChapter[]> => {
+      const sourceService = createSourceService(sourceFormat)
+      try {
+        const extracted = await sourceService.extractBookText(sourceFile, boundaries, false, options)
+        return boundaries.map(boundary => ({
+          chapter: boundary.chapter,
+          title: boundary.title,
+          text: extracted.chapters.find(chapter => chapter.chapter === boundary.chapter)?.text || ''
+        }))
+      } finally {
+        sourceService.cleanup()
       }
-      
-      if (console && console.log) {
-        console.log('BookService: Removed', removedCount, 'duplicate books')
+    }
+
+    const oldChapters = await readChapters(this.getSourceFile(book), book.format, book.chapterBoundaries)
+    const newChapters = await readChapters(file, format, chapterBoundaries)
+
+    return alignChapters(oldChapters, newChapters)
+  }
+
+  // Swap in a new edition of a book's file, moving its characters onto the new
+  // chapter numbering in the same transaction. Analyzed chapters among
+  // changedChapters (new numbering) are flagged for re-analysis.
+  async replaceSourceFile(
+    bookId: string,
+    file: File,
+    chapterBoundaries: ChapterBoundary[],
+    mapping: ChapterMapping,
+    changedChapters: number[]
+  ): Promise<Book> {
+    try {
+      const format = getBookFormat(file)
+      if (!format) {
+        throw new Error('File must be a PDF, EPUB, text or Markdown file')
       }
-      
+
+      const sourceBlob = new Blob([await file.arrayBuffer()], { type: BOOK_FORMAT_MIME_TYPES[format] })
+      const contentHash = await hashBlob(sourceBlob)
+      let previousHash: string | undefined
+      let updatedBook: Book | undefined
+
+      await db.transaction('rw', [db.books, db.characters, db.analysisRuns, db.analysisJobs, db.pageTexts, db.chapterTexts], async () => {
+        const book = await db.books.get(bookId)
+        if (!book) {
+          throw new Error(`Book with ID ${bookId} not found`)
+        }
+
+        previousHash = book.contentHash
+        updatedBook = {
+          ...await this.applyChapterMapping(book, chapterBoundaries, mapping, changedChapters),
+          fileName: file.name,
+          format,
+          sourceBlob,
+          contentHash
+        }
+        await db.books.put(updatedBook)
+
+        // Cached text belongs to the old file
+        await db.pageTexts.where('bookId').equals(bookId).delete()
+        await db.chapterTexts.where('bookId').equals(bookId).delete()
+      })
+
+      if (previousHash && previousHash !== contentHash && await db.books.where('contentHash').equals(previousHash).count() === 0) {
+        await db.ocrPages.where('contentHash').equals(previousHash).delete()
+      }
+
+      return updatedBook!
     } catch (error) {
       if (console && console.error) {
-        console.error('BookService: Error removing duplicates:', error)
+        console.error('BookService: Error replacing source file:', error)
       }
+      throw new Error(`Failed to replace book file: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // New boundaries for a book, with its characters, analysis runs and job
+  // moved to match. Must run inside a transaction that covers books,
+  // characters, analysis runs and analysis jobs.
+  async applyBoundaryEdit(book: Book, chapterBoundaries: ChapterBoundary[]): Promise<Book> {
+    return await this.applyChapterMapping(
+      book,
+      chapterBoundaries,
+      mapChaptersByPageOverlap(book.chapterBoundaries, chapterBoundaries),
+      getChangedChapters(book.chapterBoundaries, chapterBoundaries)
+    )
+  }
+
+  // Rewrite a book's characters and runs onto new chapter numbers and flag
+  // analyzed chapters whose text changed. Returns the book for the caller to store.
+  private async applyChapterMapping(
+    book: Book,
+    chapterBoundaries: ChapterBoundary[],
+    mapping: ChapterMapping,
+    changedChapters: number[]
+  ): Promise<Book> {
+    const totalChapters = chapterBoundaries.length
+    const characters = await db.characters.where('bookId').equals(book.id).toArray()
+    const runs = await db.analysisRuns.where('bookId').equals(book.id).toArray()
+    const remappedRuns = remapRuns(runs, mapping, totalChapters)
+    const changed = new Set(changedChapters)
+    const staleChapters = new Set([
+      ...remapChapterList(book.staleChapters || [], mapping),
+      ...remappedRuns.map(run => run.chapter).filter(chapter => changed.has(chapter))
+    ])
+
+    await db.characters.bulkPut(characters.map(character => remapCharacter(character, mapping, totalChapters)))
+    await db.analysisRuns.where('bookId').equals(book.id).delete()
+    await db.analysisRuns.bulkPut(remappedRuns)
+
+    const job = await db.analysisJobs.get(book.id)
+    if (job) {
+      await db.analysisJobs.put(remapJob(job, mapping))
+    }
+
+    return {
+      ...book,
+      chapterBoundaries: [...chapterBoundaries],
+      totalChapters,
+      currentChapter: remapChapter(book.currentChapter, mapping, totalChapters),
+      staleChapters: [...staleChapters].sort((a, b) => a - b)
+    }
+  }
+
+  // Analysis was re-run on the chapter, so it matches its boundaries again
+  async markChapterAnalyzed(bookId: string, chapter: number): Promise<void> {
+    const book = await db.books.get(bookId)
+    if (book?.staleChapters?.includes(chapter)) {
+      await db.books.update(bookId, { staleChapters: book.staleChapters.filter(stale => stale !== chapter) })
     }
   }
 
@@ -318,18 +493,18 @@ export class BookService {
     
     for (const book of allBooks) {
       try {
-        // Check if PDF blob is accessible
-        if (!book.pdfBlob || book.pdfBlob.size === 0) {
+        // Check if source blob is accessible
+        if (!book.sourceBlob || book.sourceBlob.size === 0) {
           corruptedBooks.push(book.id)
           continue
         }
         
         // Try to read the first few bytes to verify it's not corrupted
-        const chunk = book.pdfBlob.slice(0, 100)
+        const chunk = book.sourceBlob.slice(0, 100)
         await chunk.arrayBuffer()
         
       } catch (error) {
-        console.warn(`Book ${book.title} has corrupted PDF:`, error)
+        console.warn(`Book ${book.title} has corrupted source file:`, error)
         corruptedBooks.push(book.id)
       }
     }
@@ -345,6 +520,24 @@ export class BookService {
   }
 }
 
+// A book's characters with one chapter's analysis taken out, and what it
+// takes to store that
+export interface ChapterBaseState {
+  characters: Character[]
+  changedCharacterIds: string[]
+  removedCharacterIds: string[]
+  replacedRunIds: string[]
+  layoutKey: string // The book's file and chapter boundaries when the state was read
+  storedCharacters: Map<string, string> // Each stored character as read, serialized
+}
+
+// Changes whenever a boundary edit or file replacement renumbers chapters.
+// The content hash is left out as older books only get one on first use.
+function getBookLayoutKey(book: Book | undefined): string {
+  if (!book) return ''
+  return `${book.fileName}|${book.sourceBlob?.size}|${book.chapterBoundaries.map(getBoundaryKey).join(',')}`
+}
+
 export class CharacterService {
   async saveCharacters(bookId: string, characters: Character[]): Promise<void> {
     const charactersWithBookId = characters.map(char => ({
@@ -362,8 +555,10 @@ export class CharacterService {
   async getCharactersUpToChapter(bookId: string, maxChapter: number): Promise<Character[]> {
     const allCharacters = await this.getCharactersForBook(bookId)
     
-    // Filter characters that have appeared up to the specified chapter
-    return allCharacters.filter(character => character.firstAppearance <= maxChapter)
+    // Each as known by the end of the chapter, so nothing later reaches the UI
+    return allCharacters
+      .map(character => projectCharacterToChapter(character, maxChapter))
+      .filter((character): character is Character => character !== null)
   }
 
   async updateCharacter(character: Character): Promise<void> {
@@ -383,107 +578,289 @@ export class CharacterService {
   }
 
   async getAnalyzedChapters(bookId: string): Promise<Set<number>> {
-    const characters = await this.getCharactersForBook(bookId)
-    const analyzedChapters = new Set<number>()
-    
-    for (const character of characters) {
-      // Add chapter where character first appeared
-      analyzedChapters.add(character.firstAppearance)
-      
-      // Add all chapters from character history
-      for (const history of character.chapterHistory) {
-        analyzedChapters.add(history.chapter)
+    const runs = await db.analysisRuns.where('bookId').equals(bookId).toArray()
+    return new Set(runs.map(run => run.chapter))
+  }
+
+  // Newest first
+  async getAnalysisRuns(bookId: string, chapter: number): Promise<AnalysisRun[]> {
+    const runs = await db.analysisRuns.where('[bookId+chapter]').equals([bookId, chapter]).toArray()
+    return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  // The book's characters as they would be had the chapter never been
+  // analyzed. Re-analysis works from this state, so running it twice counts
+  // the chapter once.
+  async getChapterBaseState(bookId: string, chapter: number): Promise<ChapterBaseState> {
+    const book = await db.books.get(bookId)
+    const stored = await this.getCharactersForBook(bookId)
+    const runs = await this.getAnalysisRuns(bookId, chapter)
+    const characters = new Map(stored.map(character => [character.id, character]))
+    const touched = new Set<string>()
+
+    for (const run of runs) {
+      revertRun(characters, run).forEach(id => touched.add(id))
+    }
+
+    return {
+      characters: [...characters.values()],
+      changedCharacterIds: [...touched].filter(id => characters.has(id)),
+      removedCharacterIds: [...touched].filter(id => !characters.has(id)),
+      replacedRunIds: runs.map(run => run.id),
+      layoutKey: getBookLayoutKey(book),
+      storedCharacters: new Map(stored.map(character => [character.id, JSON.stringify(character)]))
+    }
+  }
+
+  // Store a chapter's analysis in place of its previous ones, recording what
+  // it changed so it can be rolled back
+  async saveChapterAnalysis(
+    bookId: string,
+    chapter: number,
+    base: ChapterBaseState,
+    characters: Character[],
+    details: Pick<AnalysisRun, 'provider' | 'model' | 'promptVersion' | 'rawResponses'>
+  ): Promise<AnalysisRun> {
+    const baseById = new Map(base.characters.map(character => [character.id, character]))
+    const run: AnalysisRun = {
+      id: crypto.randomUUID(),
+      bookId,
+      chapter,
+      ...details,
+      createdAt: new Date().toISOString(),
+      changes: characters.map(character => diffCharacter(baseById.get(character.id), { ...character, bookId }))
+    }
+
+    // Characters only the undo changed are written from the base state
+    const writes = new Map(base.changedCharacterIds.map(id => [id, baseById.get(id)!]))
+    characters.forEach(character => writes.set(character.id, { ...character, bookId }))
+
+    await db.transaction('rw', [db.characters, db.analysisRuns, db.books], async () => {
+      // Characters were remapped while the model was running; these results
+      // would overwrite that with the old chapter numbers
+      if (getBookLayoutKey(await db.books.get(bookId)) !== base.layoutKey) {
+        throw new Error('The book\'s chapters changed during analysis. Analyze the chapter again.')
       }
+
+      // Likewise for characters merged or edited meanwhile, and for the ones
+      // the results link to
+      const checkedIds = [...new Set([
+        ...writes.keys(),
+        ...base.removedCharacterIds,
+        ...characters.flatMap(character => character.relationships.map(relationship => relationship.targetCharacterId))
+      ])]
+      const current = await db.characters.bulkGet(checkedIds)
+      if (current.some((character, index) => (character && JSON.stringify(character)) !== base.storedCharacters.get(checkedIds[index]))) {
+        throw new Error('Characters were changed during analysis. Analyze the chapter again.')
+      }
+
+      await db.characters.bulkDelete(base.removedCharacterIds)
+      await db.characters.bulkPut([...writes.values()])
+      await db.analysisRuns.bulkDelete(base.replacedRunIds)
+      await db.analysisRuns.add(run)
+      await bookService.markChapterAnalyzed(bookId, chapter)
+    })
+
+    return run
+  }
+
+  // Undo a chapter's analysis, leaving later chapters' findings in place
+  async rollbackChapter(bookId: string, chapter: number): Promise<void> {
+    try {
+      const base = await this.getChapterBaseState(bookId, chapter)
+      const baseById = new Map(base.characters.map(character => [character.id, character]))
+
+      await db.transaction('rw', [db.characters, db.analysisRuns, db.books], async () => {
+        await db.characters.bulkDelete(base.removedCharacterIds)
+        await db.characters.bulkPut(base.changedCharacterIds.map(id => baseById.get(id)!))
+        await db.analysisRuns.bulkDelete(base.replacedRunIds)
+        // An unanalyzed chapter has nothing to re-analyze
+        await bookService.markChapterAnalyzed(bookId, chapter)
+      })
+    } catch (error) {
+      throw new Error(`Failed to roll back chapter analysis: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
-    
-    return analyzedChapters
   }
 
   async mergeCharacters(sourceCharacterId: string, targetCharacterId: string): Promise<void> {
-    const sourceChar = await db.characters.get(sourceCharacterId)
-    const targetChar = await db.characters.get(targetCharacterId)
-    
-    if (!sourceChar || !targetChar) {
-      throw new Error('Source or target character not found')
-    }
-
-    if (sourceChar.bookId !== targetChar.bookId) {
-      throw new Error('Cannot merge characters from different books')
-    }
-
-    // Merge character data
-    const mergedChar: Character = {
-      ...targetChar,
-      // Combine mention counts
-      mentionCount: targetChar.mentionCount + sourceChar.mentionCount,
-      // Use earliest appearance
-      firstAppearance: Math.min(targetChar.firstAppearance, sourceChar.firstAppearance),
-      // Merge relationships, avoiding duplicates
-      relationships: [
-        ...targetChar.relationships,
-        ...sourceChar.relationships.filter(sourceRel => 
-          !targetChar.relationships.some(targetRel => 
-            targetRel.targetCharacterId === sourceRel.targetCharacterId &&
-            targetRel.type === sourceRel.type
-          )
-        )
-      ],
-      // Merge chapter history
-      chapterHistory: [
-        ...targetChar.chapterHistory,
-        ...sourceChar.chapterHistory.filter(sourceHist =>
-          !targetChar.chapterHistory.some(targetHist =>
-            targetHist.chapter === sourceHist.chapter
+    // Runs move over with the characters, so rolling back a chapter after the
+    // merge takes the merged-away character's findings out of the target
+    await db.transaction('rw', [db.characters, db.analysisRuns], async () => {
+      const sourceChar = await db.characters.get(sourceCharacterId)
+      const targetChar = await db.characters.get(targetCharacterId)
+
+      if (!sourceChar || !targetChar) {
+        throw new Error('Source or target character not found')
+      }
+
+      if (sourceChar.bookId !== targetChar.bookId) {
+        throw new Error('Cannot merge characters from different books')
+      }
+
+      const mentionedInChapters = [...new Set([
+        ...(targetChar.mentionedInChapters || []),
+        ...(sourceChar.mentionedInChapters || [])
+      ])].sort((a, b) => a - b)
+
+      // Merge character data
+      const mergedChar: Character = {
+        ...targetChar,
+        attributeHistory: mergeAttributeHistories(targetChar, sourceChar),
+        mentionedInChapters,
+        // Combine mention counts
+        mentionCount: mentionedInChapters.length || targetChar.mentionCount + sourceChar.mentionCount,
+        // Use earliest appearance
+        firstAppearance: Math.min(targetChar.firstAppearance, sourceChar.firstAppearance),
+        lastMentioned: Math.max(targetChar.lastMentioned, sourceChar.lastMentioned),
+        // Merge relationships into one per target; the target's states win
+        // where both have one for the same chapter
+        relationships: mergeRelationships(
+          [...sourceChar.relationships, ...targetChar.relationships].map(rel =>
+            rel.targetCharacterId === sourceCharacterId ? { ...rel, targetCharacterId } : rel
+          ),
+          targetCharacterId
+        ),
+        // Merge chapter history
+        chapterHistory: [
+          ...targetChar.chapterHistory,
+          ...sourceChar.chapterHistory.filter(sourceHist =>
+            !targetChar.chapterHistory.some(targetHist =>
+              targetHist.chapter === sourceHist.chapter
+            )
           )
-        )
-      ].sort((a, b) => a.chapter - b.chapter),
-      // Combine aliases if they exist
-      aliases: [
-        ...(targetChar.aliases || []),
-        sourceChar.name, // Add source name as alias
-        ...(sourceChar.aliases || [])
-      ].filter((alias, index, arr) => arr.indexOf(alias) === index) // Remove duplicates
-    }
+        ].sort((a, b) => a.chapter - b.chapter),
+        // Combine aliases if they exist
+        aliases: [
+          ...(targetChar.aliases || []),
+          sourceChar.name, // Add source name as alias
+          ...(sourceChar.aliases || [])
+        ].filter((alias, index, arr) => arr.indexOf(alias) === index) // Remove duplicates
+      }
+      syncLatestAttributes(mergedChar)
 
-    // Update all relationships that point to the source character
-    const allCharacters = await db.characters.where('bookId').equals(sourceChar.bookId).toArray()
-    
-    for (const char of allCharacters) {
-      let updated = false
-      const updatedRelationships = char.relationships.map(rel => {
-        if (rel.targetCharacterId === sourceCharacterId) {
-          updated = true
-          return { ...rel, targetCharacterId: targetCharacterId }
-        }
-        return rel
-      })
-      
-      if (updated) {
-        await db.characters.put({
-          ...char,
-          relationships: updatedRelationships
+      // Update all relationships that point to the source character
+      const allCharacters = await db.characters.where('bookId').equals(sourceChar.bookId).toArray()
+
+      for (const char of allCharacters) {
+        let updated = false
+        const updatedRelationships = char.relationships.map(rel => {
+          if (rel.targetCharacterId === sourceCharacterId) {
+            updated = true
+            return { ...rel, targetCharacterId: targetCharacterId }
+          }
+          return rel
         })
+
+        if (updated) {
+          await db.characters.put({
+            ...char,
+            relationships: mergeRelationships(updatedRelationships, char.id)
+          })
+        }
       }
-    }
 
-    // Save merged character and delete source
-    await db.characters.put(mergedChar)
-    await db.characters.delete(sourceCharacterId)
+      // Save merged character and delete source
+      await db.characters.put(mergedChar)
+      await db.characters.delete(sourceCharacterId)
+
+      const runs = await db.analysisRuns.where('bookId').equals(sourceChar.bookId).toArray()
+      await db.analysisRuns.bulkPut(runs.map(run => redirectRunChanges(run, sourceCharacterId, targetCharacterId)))
+    })
   }
 }
 
-export class PDFService {
+// Common surface for the per-format ingestion services
+export interface BookSourceService {
+  processBookFile(file: File, options?: IngestionOptions): Promise<{
+    chapterBoundaries: ChapterBoundary[]
+    totalPages: number
+    detectionStrategy: ChapterDetectionStrategy
+    candidates?: ChapterCandidate[]
+  }>
+  extractChapterText(file: File, chapterBoundary: ChapterBoundary): Promise<string>
+  extractRawChapterText(file: File, chapterBoundary: ChapterBoundary): Promise<string>
+  // Load the file once and extract everything the text store needs
+  extractBookText(
+    file: File,
+    chapterBoundaries: ChapterBoundary[],
+    includePages: boolean,
+    options?: IngestionOptions
+  ): Promise<ExtractedBookText>
+  cleanup(): void
+}
+
+export class PDFService implements BookSourceService {
   private processor = new PDFProcessor()
 
-  async processBookFile(file: File): Promise<{
+  async processBookFile(file: File, options: IngestionOptions = {}): Promise<{
     chapterBoundaries: ChapterBoundary[]
     totalPages: number
+    detectionStrategy: ChapterDetectionStrategy
+    candidates?: ChapterCandidate[]
   }> {
-    await this.processor.loadPDF(file)
-    const chapterBoundaries = await this.processor.detectChapters()
-    const totalPages = this.processor.getTotalPages()
-    
-    return { chapterBoundaries, totalPages }
+    const contentHash = await hashBlob(file)
+    let response = await this.detect(file, await this.getOcrLayouts(contentHash), options)
+
+    // Scanned pages have no text to detect chapters from until OCR has read them
+    if (response.type === 'needs-ocr') {
+      await this.runOcr(file, contentHash, response.pages, options)
+      response = await this.detect(file, await this.getOcrLayouts(contentHash), options)
+    }
+
+    if (response.type !== 'detected') {
+      throw new Error('Unexpected response from PDF worker')
+    }
+
+    const { chapterBoundaries, totalPages, detectionStrategy, candidates } = response
+    return { chapterBoundaries, totalPages, detectionStrategy, candidates }
+  }
+
+  async findNextChapterStart(file: File, afterPage: number): Promise<ChapterCandidate | null> {
+    try {
+      if (typeof Worker === 'undefined') {
+        await this.loadPDF(file)
+        return await this.processor.findNextChapterStart(afterPage)
+      }
+
+      const ocrLayouts = await this.getOcrLayouts(await hashBlob(file))
+      const response = await this.runInWorker({ type: 'findNext', file, ocrLayouts, afterPage }, {})
+      if (response.type !== 'found') {
+        throw new Error('Unexpected response from PDF worker')
+      }
+
+      return response.candidate
+    } catch (error) {
+      console.error('PDF search error:', error)
+      throw new Error(`Failed to search PDF: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // Every strategy's chapter start candidates, which detection skips once one
+  // strategy has found chapters
+  async findChapterCandidates(file: File, options: IngestionOptions = {}): Promise<ChapterCandidate[]> {
+    try {
+      if (typeof Worker === 'undefined') {
+        await this.loadPDF(file)
+        return await this.processor.findChapterCandidates(options.onProgress)
+      }
+
+      const ocrLayouts = await this.getOcrLayouts(await hashBlob(file))
+      const response = await this.runInWorker({ type: 'findCandidates', file, ocrLayouts }, options)
+      if (response.type !== 'candidates') {
+        throw new Error('Unexpected response from PDF worker')
+      }
+
+      return response.candidates
+    } catch (error) {
+      console.error('PDF search error:', error)
+      throw new Error(`Failed to search PDF: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // OCR results for the scanned pages of a file, with per-page confidence
+  async getOcrPages(file: File): Promise<OcrPage[]> {
+    const ocrPages = await db.ocrPages.where('contentHash').equals(await hashBlob(file)).toArray()
+    return ocrPages.sort((a, b) => a.page - b.page)
   }
 
   async extractChapterText(file: File, chapterBoundary: ChapterBoundary): Promise<string> {
@@ -497,7 +874,7 @@ export class PDFService {
       const testChunk = file.slice(0, 1024)
       await testChunk.arrayBuffer()
       
-      await this.processor.loadPDF(file)
+      await this.loadPDF(file)
       return await this.processor.extractChapterText(chapterBoundary)
     } catch (error) {
       console.error('PDF extraction error:', error)
@@ -505,16 +882,517 @@ export class PDFService {
     }
   }
 
+  async extractRawChapterText(file: File, chapterBoundary: ChapterBoundary): Promise<string> {
+    try {
+      await this.loadPDF(file)
+      return await this.processor.extractRawChapterText(chapterBoundary)
+    } catch (error) {
+      console.error('PDF extraction error:', error)
+      throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  async extractBookText(
+    file: File,
+    chapterBoundaries: ChapterBoundary[],
+    includePages: boolean,
+    options: IngestionOptions = {}
+  ): Promise<ExtractedBookText> {
+    try {
+      if (typeof Worker === 'undefined') {
+        await this.loadPDF(file)
+        return await this.processor.extractBookText(chapterBoundaries, includePages, options.onProgress)
+      }
+
+      const ocrLayouts = await this.getOcrLayouts(await hashBlob(file))
+      const response = await this.runInWorker({ type: 'extract', file, ocrLayouts, chapterBoundaries, includePages }, options)
+      if (response.type !== 'extracted') {
+        throw new Error('Unexpected response from PDF worker')
+      }
+
+      return response.text
+    } catch (error) {
+      console.error('PDF extraction error:', error)
+      throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
   async extractTextFromPage(file: File, pageNumber: number): Promise<{ text: string; fontSize: number[] }> {
-    await this.processor.loadPDF(file)
+    await this.loadPDF(file)
     return await this.processor.extractTextFromPage(pageNumber)
   }
 
+  private async loadPDF(file: File): Promise<void> {
+    await this.processor.loadPDF(file)
+    this.processor.setOcrLayouts(await this.getOcrLayouts(await hashBlob(file)))
+  }
+
+  private async getOcrLayouts(contentHash: string): Promise<Record<number, PageTextLayout>> {
+    const ocrPages = await db.ocrPages.where('contentHash').equals(contentHash).toArray()
+    return Object.fromEntries(ocrPages.map(ocrPage => [ocrPage.page, ocrPage.layout]))
+  }
+
+  private async detect(
+    file: File,
+    ocrLayouts: Record<number, PageTextLayout>,
+    options: IngestionOptions
+  ): Promise<PdfWorkerResponse> {
+    if (typeof Worker !== 'undefined') {
+      return await this.runInWorker({ type: 'detect', file, ocrLayouts }, options)
+    }
+
+    await this.processor.loadPDF(file)
+    this.processor.setOcrLayouts(ocrLayouts)
+
+    const pages = await this.processor.findPagesNeedingOcr(options.onProgress)
+    if (pages.length > 0) {
+      return { type: 'needs-ocr', pages }
+    }
+
+    const { chapterBoundaries, strategy, candidates } = await this.processor.detectChapters(options.onProgress)
+    return {
+      type: 'detected',
+      chapterBoundaries,
+      totalPages: this.processor.getTotalPages(),
+      detectionStrategy: strategy,
+      candidates: candidates || []
+    }
+  }
+
+  // Each page is stored as soon as it is read, so a cancelled upload keeps
+  // the pages it finished and the next attempt carries on from there
+  private async runOcr(file: File, contentHash: string, pages: number[], options: IngestionOptions): Promise<void> {
+    const processor = new PDFProcessor()
+    const ocrProcessor = new OcrProcessor()
+
+    try {
+      await processor.loadPDF(file)
+
+      for (const page of pages) {
+        if (options.signal?.aborted) {
+          throw new Error('Processing cancelled')
+        }
+
+        options.onProgress?.({ stage: 'Running OCR', page, totalPages: processor.getTotalPages() })
+        const { layout, confidence } = await ocrProcessor.recognizePage(await processor.getPage(page))
+        await db.ocrPages.put({ id: `${contentHash}:${page}`, contentHash, page, layout, confidence })
+      }
+    } finally {
+      await ocrProcessor.terminate()
+      processor.cleanup()
+    }
+  }
+
+  // Walking every page of a large PDF takes a while, so it happens in a worker
+  // to keep the page responsive. Aborting terminates the worker outright.
+  private runInWorker(request: PdfWorkerRequest, options: IngestionOptions): Promise<PdfWorkerResponse> {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new Error('Processing cancelled'))
+        return
+      }
+
+      const worker = new Worker(new URL('../workers/pdfWorker.ts', import.meta.url), { type: 'module' })
+
+      const finish = () => {
+        worker.terminate()
+        options.signal?.removeEventListener('abort', handleAbort)
+      }
+
+      const handleAbort = () => {
+        finish()
+        reject(new Error('Processing cancelled'))
+      }
+
+      options.signal?.addEventListener('abort', handleAbort)
+
+      worker.onmessage = (event: MessageEvent<PdfWorkerResponse>) => {
+        const message = event.data
+        if (message.type === 'progress') {
+          options.onProgress?.(message.progress)
+          return
+        }
+
+        finish()
+        if (message.type === 'error') {
+          reject(new Error(message.message))
+        } else {
+          resolve(message)
+        }
+      }
+
+      worker.onerror = (event) => {
+        finish()
+        reject(new Error(event.message || 'PDF worker failed'))
+      }
+
+      worker.postMessage(request)
+    })
+  }
+
+  cleanup(): void {
+    this.processor.cleanup()
+  }
+}
+
+export class EPUBService implements BookSourceService {
+  private processor = new EpubProcessor()
+
+  async processBookFile(file: File): Promise<{
+    chapterBoundaries: ChapterBoundary[]
+    totalPages: number
+    detectionStrategy: ChapterDetectionStrategy
+    candidates?: ChapterCandidate[]
+  }> {
+    await this.processor.loadEPUB(file)
+    const { chapterBoundaries, strategy } = await this.processor.detectChapters()
+    const totalPages = this.processor.getTotalSections()
+
+    return { chapterBoundaries, totalPages, detectionStrategy: strategy }
+  }
+
+  async extractChapterText(file: File, chapterBoundary: ChapterBoundary): Promise<string> {
+    try {
+      if (!file || file.size === 0) {
+        throw new Error('Invalid EPUB file provided')
+      }
+
+      await this.processor.loadEPUB(file)
+      return await this.processor.extractChapterText(chapterBoundary)
+    } catch (error) {
+      console.error('EPUB extraction error:', error)
+      throw new Error(`Failed to extract text from EPUB: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // Reflowable text has no page furniture to strip
+  async extractRawChapterText(file: File, chapterBoundary: ChapterBoundary): Promise<string> {
+    return this.extractChapterText(file, chapterBoundary)
+  }
+
+  async extractBookText(file: File, chapterBoundaries: ChapterBoundary[], includePages: boolean): Promise<ExtractedBookText> {
+    try {
+      await this.processor.loadEPUB(file)
+      const result: ExtractedBookText = { pages: [], chapters: [] }
+
+      if (includePages) {
+        for (let page = 1; page <= this.processor.getTotalSections(); page++) {
+          const text = await this.processor.extractTextFromSection(page)
+          result.pages.push({ page, rawText: text, text })
+        }
+      }
+
+      for (const boundary of chapterBoundaries) {
+        const text = await this.processor.extractChapterText(boundary)
+        result.chapters.push({ chapter: boundary.chapter, rawText: text, text })
+      }
+
+      return result
+    } catch (error) {
+      console.error('EPUB extraction error:', error)
+      throw new Error(`Failed to extract text from EPUB: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
   cleanup(): void {
     this.processor.cleanup()
   }
 }
 
+export class TextService implements BookSourceService {
+  private processor = new TextProcessor()
+
+  constructor(private isMarkdown: boolean) {}
+
+  async processBookFile(file: File): Promise<{
+    chapterBoundaries: ChapterBoundary[]
+    totalPages: number
+    detectionStrategy: ChapterDetectionStrategy
+    candidates?: ChapterCandidate[]
+  }> {
+    await this.processor.loadText(file, this.isMarkdown)
+    const { chapterBoundaries, strategy } = await this.processor.detectChapters()
+    const totalPages = this.processor.getTotalSections()
+
+    return { chapterBoundaries, totalPages, detectionStrategy: strategy }
+  }
+
+  async extractChapterText(file: File, chapterBoundary: ChapterBoundary): Promise<string> {
+    try {
+      if (!file || file.size === 0) {
+        throw new Error('Invalid text file provided')
+      }
+
+      await this.processor.loadText(file, this.isMarkdown)
+      return await this.processor.extractChapterText(chapterBoundary)
+    } catch (error) {
+      console.error('Text extraction error:', error)
+      throw new Error(`Failed to extract text: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // Reflowable text has no page furniture to strip
+  async extractRawChapterText(file: File, chapterBoundary: ChapterBoundary): Promise<string> {
+    return this.extractChapterText(file, chapterBoundary)
+  }
+
+  async extractBookText(file: File, chapterBoundaries: ChapterBoundary[], includePages: boolean): Promise<ExtractedBookText> {
+    try {
+      await this.processor.loadText(file, this.isMarkdown)
+      const result: ExtractedBookText = { pages: [], chapters: [] }
+
+      if (includePages) {
+        for (let page = 1; page <= this.processor.getTotalSections(); page++) {
+          const text = await this.processor.extractTextFromSection(page)
+          result.pages.push({ page, rawText: text, text })
+        }
+      }
+
+      for (const boundary of chapterBoundaries) {
+        const text = await this.processor.extractChapterText(boundary)
+        result.chapters.push({ chapter: boundary.chapter, rawText: text, text })
+      }
+
+      return result
+    } catch (error) {
+      console.error('Text extraction error:', error)
+      throw new Error(`Failed to extract text: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  cleanup(): void {
+    this.processor.cleanup()
+  }
+}
+
+// Extracted text is kept in the database so analysis reads it instead of
+// re-parsing the source file every time
+export class TextStoreService {
+  private populating = new Set<string>()
+
+  // Fill in whatever is missing for a book. Runs in the background after upload
+  // and after boundary edits; it uses its own source service so it never
+  // reloads the document out from under an analysis in progress.
+  async populateBook(book: Book): Promise<void> {
+    if (this.populating.has(book.id)) return
+    this.populating.add(book.id)
+
+    try {
+      const contentHash = await bookService.getContentHash(book)
+
+      // Text from an older copy of the source file is useless
+      await db.pageTexts.where('bookId').equals(book.id).filter(row => row.contentHash !== contentHash).delete()
+      await db.chapterTexts.where('bookId').equals(book.id).filter(row => row.contentHash !== contentHash).delete()
+
+      const storedPages = await db.pageTexts.where('bookId').equals(book.id).count()
+      const storedChapters = await db.chapterTexts.where('bookId').equals(book.id).toArray()
+      const missingChapters = book.chapterBoundaries.filter(boundary =>
+        isAnalyzableChapter(boundary) &&
+        !storedChapters.some(row => row.chapter === boundary.chapter && row.boundaryKey === getBoundaryKey(boundary))
+      )
+
+      if (storedPages > 0 && missingChapters.length === 0) return
+
+      if (console && console.log) {
+        console.log('TextStoreService: Extracting text for book:', book.id, 'chapters:', missingChapters.length)
+      }
+
+      const sourceService = createSourceService(book.format)
+      try {
+        const extracted = await sourceService.extractBookText(
+          bookService.getSourceFile(book),
+          missingChapters,
+          storedPages === 0
+        )
+
+        await db.pageTexts.bulkPut(extracted.pages.map((page): PageText => ({
+          id: `${book.id}:${page.page}`,
+          bookId: book.id,
+          contentHash,
+          ...page
+        })))
+        await this.putChapterTexts(book.id, contentHash, missingChapters, extracted.chapters)
+      } finally {
+        sourceService.cleanup()
+      }
+    } finally {
+      this.populating.delete(book.id)
+    }
+  }
+
+  // Cached chapter text, extracted and stored on a miss
+  async getChapterText(book: Book, chapterBoundary: ChapterBoundary): Promise<{ text: string; rawText: string }> {
+    const contentHash = await bookService.getContentHash(book)
+    const stored = await db.chapterTexts.get(`${book.id}:${chapterBoundary.chapter}`)
+
+    if (stored && stored.contentHash === contentHash && stored.boundaryKey === getBoundaryKey(chapterBoundary)) {
+      return { text: stored.text, rawText: stored.rawText }
+    }
+
+    const extracted = await getSourceService(book.format).extractBookText(
+      bookService.getSourceFile(book),
+      [chapterBoundary],
+      false
+    )
+    await this.putChapterTexts(book.id, contentHash, [chapterBoundary], extracted.chapters)
+
+    const { text, rawText } = extracted.chapters[0]
+    return { text, rawText }
+  }
+
+  async getPageTexts(bookId: string): Promise<PageText[]> {
+    const pages = await db.pageTexts.where('bookId').equals(bookId).toArray()
+    return pages.sort((a, b) => a.page - b.page)
+  }
+
+  private async putChapterTexts(
+    bookId: string,
+    contentHash: string,
+    chapterBoundaries: ChapterBoundary[],
+    chapters: ExtractedBookText['chapters']
+  ): Promise<void> {
+    await db.chapterTexts.bulkPut(chapters.map((chapter): ChapterText => ({
+      id: `${bookId}:${chapter.chapter}`,
+      bookId,
+      contentHash,
+      boundaryKey: getBoundaryKey(chapterBoundaries.find(boundary => boundary.chapter === chapter.chapter)!),
+      ...chapter
+    })))
+  }
+}
+
+// Groups of two or more books with the same content hash, oldest copy first
+export function groupDuplicateBooks(books: Book[]): Book[][] {
+  const booksByHash = new Map<string, Book[]>()
+
+  for (const book of books) {
+    if (!book.contentHash) continue
+
+    const group = booksByHash.get(book.contentHash) || []
+    group.push(book)
+    booksByHash.set(book.contentHash, group)
+  }
+
+  return [...booksByHash.values()]
+    .filter(group => group.length > 1)
+    .map(group => group.sort((a, b) => new Date(a.uploadDate).getTime() - new Date(b.uploadDate).getTime()))
+}
+
+// The single settings row, merged on write so unrelated fields survive
+export class SettingsService {
+  async getSettings(): Promise<Settings> {
+    return await db.settings.get('settings') || { id: 'settings', theme: 'light' }
+  }
+
+  async updateSettings(changes: Partial<Omit<Settings, 'id'>>): Promise<void> {
+    await db.settings.put({ ...await this.getSettings(), ...changes })
+  }
+
+  async setCurrentBook(bookId: string): Promise<void> {
+    await this.updateSettings({ currentBookId: bookId })
+  }
+
+  async getLlmSettings(): Promise<LlmSettings> {
+    return (await this.getSettings()).llm || DEFAULT_LLM_SETTINGS
+  }
+
+  async saveLlmSettings(llm: LlmSettings): Promise<void> {
+    await this.updateSettings({ llm })
+  }
+}
+
+// Each user's own provider API keys. Encrypted keys are unlocked with the
+// passphrase once per session and only ever held in memory after that.
+export class CredentialService {
+  private unlockedKeys = new Map<LlmProviderType, string>()
+
+  async getCredential(provider: LlmProviderType): Promise<ApiCredential | undefined> {
+    return await db.credentials.get(provider)
+  }
+
+  async getKeyStatus(provider: LlmProviderType): Promise<ApiKeyStatus> {
+    const credential = await this.getCredential(provider)
+
+    if (!credential) {
+      return LLM_PROVIDER_DEFAULTS[provider].apiKey === 'required' ? 'missing' : 'not-needed'
+    }
+    if (credential.encrypted && !this.unlockedKeys.has(provider)) {
+      return 'locked'
+    }
+    return 'ready'
+  }
+
+  // The usable key, or undefined when none is saved or it is still locked
+  async getApiKey(provider: LlmProviderType): Promise<string | undefined> {
+    const credential = await this.getCredential(provider)
+    if (!credential) return undefined
+
+    return credential.encrypted ? this.unlockedKeys.get(provider) : credential.apiKey
+  }
+
+  async saveApiKey(provider: LlmProviderType, apiKey: string, passphrase?: string): Promise<void> {
+    try {
+      const credential: ApiCredential = passphrase
+        ? { id: provider, encrypted: await encryptSecret(apiKey, passphrase), updatedAt: new Date().toISOString() }
+        : { id: provider, apiKey, updatedAt: new Date().toISOString() }
+
+      await db.credentials.put(credential)
+      this.unlockedKeys.set(provider, apiKey)
+    } catch (error) {
+      throw new Error(`Failed to save API key: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  async unlockApiKey(provider: LlmProviderType, passphrase: string): Promise<string> {
+    const credential = await this.getCredential(provider)
+    if (!credential?.encrypted) {
+      throw new Error('No encrypted API key is saved for this provider')
+    }
+
+    const apiKey = await decryptSecret(credential.encrypted, passphrase)
+    this.unlockedKeys.set(provider, apiKey)
+    return apiKey
+  }
+
+  async deleteApiKey(provider: LlmProviderType): Promise<void> {
+    await db.credentials.delete(provider)
+    this.unlockedKeys.delete(provider)
+  }
+}
+
+export class AnalysisJobService {
+  async getJob(bookId: string): Promise<AnalysisJob | undefined> {
+    return await db.analysisJobs.get(bookId)
+  }
+
+  async saveJob(job: AnalysisJob): Promise<void> {
+    await db.analysisJobs.put({ ...job, updatedAt: new Date().toISOString() })
+  }
+
+  // Read-modify-write in one transaction, so pausing from the UI cannot be
+  // lost under a chapter update from the running job
+  async updateJob(bookId: string, change: (job: AnalysisJob) => void): Promise<AnalysisJob | undefined> {
+    return await db.transaction('rw', db.analysisJobs, async () => {
+      const job = await db.analysisJobs.get(bookId)
+      if (!job) return undefined
+
+      change(job)
+      job.updatedAt = new Date().toISOString()
+      await db.analysisJobs.put(job)
+      return job
+    })
+  }
+
+  async deleteJob(bookId: string): Promise<void> {
+    await db.analysisJobs.delete(bookId)
+  }
+
+  async getUnfinishedJobs(): Promise<AnalysisJob[]> {
+    const jobs = await db.analysisJobs.where('status').anyOf('queued', 'running').toArray()
+    return jobs.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  }
+}
+
 // Database management utilities
 export class DatabaseManager {
   async resetDatabase(): Promise<void> {
@@ -573,9 +1451,9 @@ export class DatabaseManager {
             continue
           }
           
-        // Check if PDF blob is accessible
-        if (!book.pdfBlob || book.pdfBlob.size === 0) {
-          console.warn('Book has invalid PDF blob:', book.title)
+        // Check if source blob is accessible
+        if (!book.sourceBlob || book.sourceBlob.size === 0) {
+          console.warn('Book has invalid source blob:', book.title)
           corruptedBookIds.push(book.id)
           continue
         }
@@ -583,7 +1461,7 @@ export class DatabaseManager {
         // More thorough blob validation
         try {
           // Test blob integrity with larger chunk and timeout
-          const testChunk = book.pdfBlob.slice(0, Math.min(book.pdfBlob.size, 50000))
+          const testChunk = book.sourceBlob.slice(0, Math.min(book.sourceBlob.size, 50000))
           
           // Add timeout to prevent hanging
           const timeoutPromise = new Promise((_, reject) => 
@@ -595,14 +1473,15 @@ export class DatabaseManager {
             timeoutPromise
           ])
           
-          // Additional validation: check if blob looks like a PDF
-          const headerChunk = book.pdfBlob.slice(0, 10)
+          // Additional validation: check if blob matches its declared format
+          const expectedSignature = BOOK_FORMAT_SIGNATURES[book.format]
+          const headerChunk = book.sourceBlob.slice(0, 10)
           const headerBuffer = await headerChunk.arrayBuffer()
           const headerBytes = new Uint8Array(headerBuffer)
-          const pdfSignature = String.fromCharCode(...headerBytes.slice(0, 4))
+          const signature = String.fromCharCode(...headerBytes.slice(0, expectedSignature.length))
           
-          if (pdfSignature !== '%PDF') {
-            console.warn('Book blob does not have PDF signature:', book.title, 'signature:', pdfSignature)
+          if (signature !== expectedSignature) {
+            console.warn('Book blob does not have expected signature:', book.title, 'signature:', signature)
             corruptedBookIds.push(book.id)
             continue
           }
@@ -680,8 +1559,8 @@ export class DatabaseManager {
       
       for (const book of books) {
         try {
-          // Check if PDF blob exists and is readable
-          if (!book.pdfBlob || book.pdfBlob.size === 0) {
+          // Check if source blob exists and is readable
+          if (!book.sourceBlob || book.sourceBlob.size === 0) {
             console.log(`❌ Removing book with invalid blob: ${book.title}`)
             await bookService.deleteBook(book.id)
             removedCount++
@@ -689,17 +1568,17 @@ export class DatabaseManager {
           }
           
           // Try to read the blob
-          const testChunk = book.pdfBlob.slice(0, 1000)
+          const testChunk = book.sourceBlob.slice(0, 1000)
           await testChunk.arrayBuffer()
           
-          // Check if it's a valid PDF
-          const headerChunk = book.pdfBlob.slice(0, 4)
+          // Check if it matches its declared format
+          const headerChunk = book.sourceBlob.slice(0, 4)
           const headerBuffer = await headerChunk.arrayBuffer()
           const headerBytes = new Uint8Array(headerBuffer)
           const signature = String.fromCharCode(...headerBytes)
           
-          if (!signature.startsWith('%PDF')) {
-            console.log(`❌ Removing book with invalid PDF signature: ${book.title}`)
+          if (!signature.startsWith(BOOK_FORMAT_SIGNATURES[book.format])) {
+            console.log(`❌ Removing book with invalid file signature: ${book.title}`)
             await bookService.deleteBook(book.id)
             removedCount++
             continue
@@ -727,4 +1606,38 @@ export class DatabaseManager {
 export const databaseManager = new DatabaseManager()
 export const bookService = new BookService()
 export const characterService = new CharacterService()
-export const pdfService = new PDFService()
\ No newline at end of file
+export const pdfService = new PDFService()
+export const epubService = new EPUBService()
+export const textService = new TextService(false)
+export const markdownService = new TextService(true)
+export const textStoreService = new TextStoreService()
+export const settingsService = new SettingsService()
+export const credentialService = new CredentialService()
+export const analysisJobService = new AnalysisJobService()
+
+export function getSourceService(format: BookFormat): BookSourceService {
+  switch (format) {
+    case 'epub':
+      return epubService
+    case 'text':
+      return textService
+    case 'markdown':
+      return markdownService
+    default:
+      return pdfService
+  }
+}
+
+// A separate instance for background work that must not share the singleton's loaded document
+export function createSourceService(format: BookFormat): BookSourceService {
+  switch (format) {
+    case 'epub':
+      return new EPUBService()
+    case 'text':
+      return new TextService(false)
+    case 'markdown':
+      return new TextService(true)
+    default:
+      return new PDFService()
+  }
+}
@@ -0,0 +1,218 @@
+import { AnalysisJob } from '../types'
+import { analysisJobService, bookService, textStoreService } from '../db/services'
+import { CharacterExtractionService, characterExtractionService } from './characterExtraction'
+import { DEFAULT_RATE_LIMIT, RateLimitedProvider } from './llmProviders'
+import { isAnalyzableChapter } from '../utils/chapterBoundaries'
+
+type JobListener = (job: AnalysisJob | undefined) => void
+
+// Runs analysis jobs one chapter at a time, one book at a time. Job state
+// lives in the database; this class only drives it and tells listeners.
+export class AnalysisQueueService {
+  private activeBookId: string | null = null
+  private controller: AbortController | null = null
+  private listeners = new Map<string, Set<JobListener>>()
+  private started = false
+
+  // Jobs that were running when the page closed go back in the queue
+  async start(): Promise<void> {
+    if (this.started) return
+    this.started = true
+
+    try {
+      for (const job of await analysisJobService.getUnfinishedJobs()) {
+        await this.updateJob(job.bookId, current => {
+          current.status = 'queued'
+          for (const chapter of current.chapters) {
+            if (chapter.state === 'running') chapter.state = 'queued'
+          }
+        })
+      }
+      this.runNext()
+    } catch (error) {
+      console.error('Error restoring analysis jobs:', error)
+    }
+  }
+
+  subscribe(bookId: string, listener: JobListener): () => void {
+    const bookListeners = this.listeners.get(bookId) || new Set()
+    bookListeners.add(listener)
+    this.listeners.set(bookId, bookListeners)
+
+    analysisJobService.getJob(bookId).then(listener)
+    return () => bookListeners.delete(listener)
+  }
+
+  // Replaces any finished or paused job for the book
+  async enqueue(bookId: string, chapters: number[]): Promise<void> {
+    if (chapters.length === 0) {
+      throw new Error('No chapters selected')
+    }
+    if (this.activeBookId === bookId) {
+      throw new Error('This book already has analysis running')
+    }
+
+    const now = new Date().toISOString()
+    const job: AnalysisJob = {
+      id: bookId,
+      bookId,
+      status: 'queued',
+      chapters: [...chapters].sort((a, b) => a - b).map(chapter => ({ chapter, state: 'queued' })),
+      createdAt: now,
+      updatedAt: now
+    }
+
+    await analysisJobService.saveJob(job)
+    this.notify(bookId, job)
+    this.runNext()
+  }
+
+  async pause(bookId: string): Promise<void> {
+    await this.updateJob(bookId, job => {
+      if (job.status !== 'finished') job.status = 'paused'
+    })
+    if (this.activeBookId === bookId) {
+      this.controller?.abort()
+    }
+  }
+
+  async resume(bookId: string): Promise<void> {
+    await this.updateJob(bookId, job => {
+      job.status = 'queued'
+      job.error = undefined
+    })
+    this.runNext()
+  }
+
+  async retryFailed(bookId: string): Promise<void> {
+    await this.updateJob(bookId, job => {
+      for (const chapter of job.chapters) {
+        if (chapter.state === 'failed') {
+          chapter.state = 'queued'
+          chapter.error = undefined
+        }
+      }
+    })
+    await this.resume(bookId)
+  }
+
+  async cancel(bookId: string): Promise<void> {
+    if (this.activeBookId === bookId) {
+      this.controller?.abort()
+    }
+    await analysisJobService.deleteJob(bookId)
+    this.notify(bookId, undefined)
+  }
+
+  private async runNext(): Promise<void> {
+    if (this.activeBookId) return
+
+    const [job] = await analysisJobService.getUnfinishedJobs()
+    if (!job || this.activeBookId) return
+
+    this.activeBookId = job.bookId
+    this.controller = new AbortController()
+
+    try {
+      await this.runJob(job.bookId, this.controller.signal)
+    } catch (error) {
+      console.error('Analysis job failed:', error)
+      await this.updateJob(job.bookId, current => {
+        current.status = 'paused'
+        current.error = error instanceof Error ? error.message : 'Unknown error'
+      })
+    } finally {
+      this.activeBookId = null
+      this.controller = null
+    }
+
+    this.runNext()
+  }
+
+  private async runJob(bookId: string, signal: AbortSignal): Promise<void> {
+    // A missing or locked key pauses the job here, before any chapter is touched
+    const provider = new RateLimitedProvider(await characterExtractionService.getConfiguredProvider(), {
+      ...DEFAULT_RATE_LIMIT,
+      signal
+    })
+    const extractor = new CharacterExtractionService(provider)
+
+    await this.updateJob(bookId, job => {
+      if (job.status === 'queued') job.status = 'running'
+    })
+
+    while (!signal.aborted) {
+      const job = await analysisJobService.getJob(bookId)
+      if (!job || job.status !== 'running') return
+
+      const next = job.chapters.find(chapter => chapter.state === 'queued')
+      if (!next) {
+        await this.updateJob(bookId, current => {
+          current.status = 'finished'
+        })
+        return
+      }
+
+      await this.setChapterState(bookId, next.chapter, 'running')
+
+      try {
+        await this.analyzeChapter(extractor, bookId, next.chapter)
+        await this.setChapterState(bookId, next.chapter, 'done')
+      } catch (error) {
+        if (signal.aborted) {
+          await this.setChapterState(bookId, next.chapter, 'queued')
+          return
+        }
+
+        console.error(`Analysis of chapter ${next.chapter} failed:`, error)
+        await this.setChapterState(bookId, next.chapter, 'failed', error instanceof Error ? error.message : 'Unknown error')
+      }
+    }
+  }
+
+  // Same steps as analyzing a single chapter by hand
+  private async analyzeChapter(extractor: CharacterExtractionService, bookId: string, chapter: number): Promise<void> {
+    const book = await bookService.getBook(bookId)
+    const boundary = book?.chapterBoundaries.find(candidate => candidate.chapter === chapter)
+
+    if (!book || !boundary) {
+      throw new Error('Chapter no longer exists')
+    }
+    if (!isAnalyzableChapter(boundary)) {
+      throw new Error('Chapter is marked as front or back matter')
+    }
+
+    const { text } = await textStoreService.getChapterText(book, boundary)
+    if (text.trim().length < 100) {
+      throw new Error(`Chapter text is too short (${text.trim().length} characters)`)
+    }
+
+    await extractor.analyzeChapter(bookId, chapter, text)
+  }
+
+  private async setChapterState(
+    bookId: string,
+    chapter: number,
+    state: AnalysisJob['chapters'][number]['state'],
+    error?: string
+  ): Promise<void> {
+    await this.updateJob(bookId, job => {
+      const entry = job.chapters.find(candidate => candidate.chapter === chapter)
+      if (entry) {
+        entry.state = state
+        entry.error = error
+      }
+    })
+  }
+
+  private async updateJob(bookId: string, change: (job: AnalysisJob) => void): Promise<void> {
+    const job = await analysisJobService.updateJob(bookId, change)
+    this.notify(bookId, job)
+  }
+
+  private notify(bookId: string, job: AnalysisJob | undefined): void {
+    this.listeners.get(bookId)?.forEach(listener => listener(job))
+  }
+}
+
+export const analysisQueueService = new AnalysisQueueService()
@@ -0,0 +1,55 @@
+import { BookFormat } from '../types'
+
+export const BOOK_FORMAT_MIME_TYPES: Record<BookFormat, string> = {
+  pdf: 'application/pdf',
+  epub: 'application/epub+zip',
+  text: 'text/plain',
+  markdown: 'text/markdown'
+}
+
+export const BOOK_FORMAT_EXTENSIONS: Record<BookFormat, string[]> = {
+  pdf: ['.pdf'],
+  epub: ['.epub'],
+  text: ['.txt'],
+  markdown: ['.md', '.markdown']
+}
+
+export const BOOK_FORMAT_LABELS: Record<BookFormat, string> = {
+  pdf: 'PDF',
+  epub: 'EPUB',
+  text: 'text',
+  markdown: 'Markdown'
+}
+
+// Leading bytes used to sanity-check stored blobs (EPUB is a zip container, text has none)
+export const BOOK_FORMAT_SIGNATURES: Record<BookFormat, string> = {
+  pdf: '%PDF',
+  epub: 'PK',
+  text: '',
+  markdown: ''
+}
+
+export const ACCEPTED_BOOK_EXTENSIONS = Object.values(BOOK_FORMAT_EXTENSIONS).flat().join(',')
+
+// Browsers often report an empty or generic MIME type for EPUB and Markdown
+// files, so the extension wins and the MIME type is only a fallback
+export function getBookFormat(file: File): BookFormat | null {
+  const fileName = file.name.toLowerCase()
+  const formats = Object.keys(BOOK_FORMAT_MIME_TYPES) as BookFormat[]
+
+  const byExtension = formats.find(format =>
+    BOOK_FORMAT_EXTENSIONS[format].some(extension => fileName.endsWith(extension))
+  )
+  if (byExtension) return byExtension
+
+  return formats.find(format => file.type === BOOK_FORMAT_MIME_TYPES[format]) || null
+}
+
+export function stripBookExtension(fileName: string): string {
+  const lowerName = fileName.toLowerCase()
+  const extension = Object.values(BOOK_FORMAT_EXTENSIONS)
+    .flat()
+    .find(ext => lowerName.endsWith(ext))
+
+  return extension ? fileName.slice(0, -extension.length) : fileName
+}
@@ -0,0 +1,261 @@
+import JSZip from 'jszip'
+import { ChapterBoundary, ChapterDetectionResult } from '../types'
+import { ChapterStart, applyMatterTitles, clipLocationText, createChapterBoundaries } from '../utils/chapterBoundaries'
+
+interface SpineItem {
+  href: string
+  title?: string
+}
+
+interface TocEntry {
+  title: string
+  href: string
+}
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'dd', 'div', 'dl', 'dt', 'figcaption',
+  'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'ol',
+  'p', 'pre', 'section', 'table', 'tr', 'ul'
+])
+
+// EPUB "pages" are the linear spine documents, numbered from 1 like PDF pages
+export class EpubProcessor {
+  private zip: JSZip | null = null
+  private spine: SpineItem[] = []
+  private toc: TocEntry[] = []
+
+  async loadEPUB(file: File): Promise<void> {
+    const arrayBuffer = await file.arrayBuffer()
+    this.zip = await JSZip.loadAsync(arrayBuffer)
+
+    const containerXml = await this.readXml('META-INF/container.xml')
+    const rootfile = containerXml.getElementsByTagName('rootfile')[0]
+    const opfPath = rootfile?.getAttribute('full-path')
+
+    if (!opfPath) {
+      throw new Error('EPUB container does not reference a package document')
+    }
+
+    const opf = await this.readXml(opfPath)
+    const manifest = new Map<string, { href: string; mediaType: string; properties: string }>()
+
+    for (const item of Array.from(opf.getElementsByTagName('item'))) {
+      const id = item.getAttribute('id')
+      const href = item.getAttribute('href')
+      if (!id || !href) continue
+
+      manifest.set(id, {
+        href: this.resolvePath(opfPath, href),
+        mediaType: item.getAttribute('media-type') || '',
+        properties: item.getAttribute('properties') || ''
+      })
+    }
+
+    const spineElement = opf.getElementsByTagName('spine')[0]
+    if (!spineElement) {
+      throw new Error('EPUB package document has no spine')
+    }
+
+    this.spine = Array.from(spineElement.getElementsByTagName('itemref'))
+      .filter(itemref => itemref.getAttribute('linear') !== 'no')
+      .map(itemref => manifest.get(itemref.getAttribute('idref') || ''))
+      .filter((item): item is { href: string; mediaType: string; properties: string } => Boolean(item))
+      .map(item => ({ href: item.href }))
+
+    if (this.spine.length === 0) {
+      throw new Error('EPUB spine contains no readable documents')
+    }
+
+    // EPUB 3 nav document first, EPUB 2 NCX as fallback
+    const navItem = Array.from(manifest.values()).find(item => item.properties.split(/\s+/).includes('nav'))
+    const ncxItem = manifest.get(spineElement.getAttribute('toc') || '') ||
+      Array.from(manifest.values()).find(item => item.mediaType === 'application/x-dtbncx+xml')
+
+    this.toc = []
+    try {
+      if (navItem) {
+        this.toc = await this.readNavDocument(navItem.href)
+      }
+      if (this.toc.length === 0 && ncxItem) {
+        this.toc = await this.readNcx(ncxItem.href)
+      }
+    } catch (error) {
+      console.warn('Error reading EPUB table of contents:', error)
+    }
+
+    for (const entry of this.toc) {
+      const spineItem = this.spine.find(item => item.href === entry.href)
+      if (spineItem && !spineItem.title) {
+        spineItem.title = entry.title
+      }
+    }
+  }
+
+  async extractTextFromSection(sectionNumber: number): Promise<string> {
+    if (!this.zip) {
+      throw new Error('EPUB not loaded')
+    }
+
+    const spineItem = this.spine[sectionNumber - 1]
+    if (!spineItem) {
+      throw new Error(`Section ${sectionNumber} does not exist`)
+    }
+
+    const document = await this.readXml(spineItem.href, 'application/xhtml+xml')
+    const body = document.getElementsByTagName('body')[0] || document.documentElement
+
+    return this.collectText(body)
+      .split('\n')
+      .map(line => line.replace(/\s+/g, ' ').trim())
+      .filter(line => line.length > 0)
+      .join('\n')
+  }
+
+  async extractChapterText(chapterBoundary: ChapterBoundary): Promise<string> {
+    let chapterText = ''
+
+    for (let section = chapterBoundary.startPage; section <= chapterBoundary.endPage; section++) {
+      chapterText += clipLocationText(await this.extractTextFromSection(section), section, chapterBoundary) + '\n'
+    }
+
+    return chapterText
+  }
+
+  async detectChapters(): Promise<ChapterDetectionResult> {
+    if (!this.zip) {
+      throw new Error('EPUB not loaded')
+    }
+
+    const totalSections = this.spine.length
+    const chapterStarts = new Map<number, ChapterStart>()
+
+    for (const entry of this.toc) {
+      const section = this.spine.findIndex(item => item.href === entry.href) + 1
+      if (section > 0 && !chapterStarts.has(section)) {
+        chapterStarts.set(section, { page: section, title: entry.title || undefined })
+      }
+    }
+
+    if (chapterStarts.size > 0) {
+      const sortedStarts = [...chapterStarts.values()].sort((a, b) => a.page - b.page)
+      return {
+        chapterBoundaries: applyMatterTitles(createChapterBoundaries(sortedStarts, totalSections), totalSections),
+        strategy: 'epub-toc'
+      }
+    }
+
+    // No usable table of contents - treat every spine document as a chapter
+    return {
+      chapterBoundaries: createChapterBoundaries(this.spine.map((_, index) => index + 1), totalSections),
+      strategy: 'spine'
+    }
+  }
+
+  getSectionTitle(sectionNumber: number): string | undefined {
+    return this.spine[sectionNumber - 1]?.title
+  }
+
+  getTotalSections(): number {
+    return this.spine.length
+  }
+
+  cleanup(): void {
+    this.zip = null
+    this.spine = []
+    this.toc = []
+  }
+
+  private async readNavDocument(navPath: string): Promise<TocEntry[]> {
+    const navDocument = await this.readXml(navPath, 'application/xhtml+xml')
+    const navElements = Array.from(navDocument.getElementsByTagName('nav'))
+    const tocNav = navElements.find(nav =>
+      (nav.getAttribute('epub:type') || nav.getAttributeNS('http://www.idpf.org/2007/ops', 'type') || '')
+        .split(/\s+/)
+        .includes('toc')
+    ) || navElements[0]
+
+    if (!tocNav) return []
+
+    return Array.from(tocNav.getElementsByTagName('a'))
+      .filter(anchor => anchor.getAttribute('href'))
+      .map(anchor => ({
+        title: (anchor.textContent || '').replace(/\s+/g, ' ').trim(),
+        href: this.resolvePath(navPath, anchor.getAttribute('href')!)
+      }))
+  }
+
+  private async readNcx(ncxPath: string): Promise<TocEntry[]> {
+    const ncx = await this.readXml(ncxPath)
+
+    return Array.from(ncx.getElementsByTagName('navPoint'))
+      .map(navPoint => {
+        const label = navPoint.getElementsByTagName('text')[0]?.textContent || ''
+        const src = navPoint.getElementsByTagName('content')[0]?.getAttribute('src') || ''
+        return {
+          title: label.replace(/\s+/g, ' ').trim(),
+          href: src ? this.resolvePath(ncxPath, src) : ''
+        }
+      })
+      .filter(entry => entry.href)
+  }
+
+  private async readXml(path: string, mimeType: DOMParserSupportedType = 'application/xml'): Promise<Document> {
+    if (!this.zip) {
+      throw new Error('EPUB not loaded')
+    }
+
+    const entry = this.zip.file(path)
+    if (!entry) {
+      throw new Error(`EPUB is missing ${path}`)
+    }
+
+    const content = await entry.async('string')
+    const parser = new DOMParser()
+    const document = parser.parseFromString(content, mimeType)
+
+    // Plenty of EPUBs ship XHTML that is not well-formed XML; the HTML parser is forgiving
+    if (document.getElementsByTagName('parsererror').length > 0) {
+      return parser.parseFromString(content, 'text/html')
+    }
+
+    return document
+  }
+
+  // Resolve an href relative to the document that contains it, dropping any fragment
+  private resolvePath(basePath: string, href: string): string {
+    const cleanHref = decodeURIComponent(href.split('#')[0])
+    const baseParts = basePath.split('/').slice(0, -1)
+
+    for (const part of cleanHref.split('/')) {
+      if (part === '..') {
+        baseParts.pop()
+      } else if (part !== '.' && part !== '') {
+        baseParts.push(part)
+      }
+    }
+
+    return baseParts.join('/')
+  }
+
+  private collectText(node: Node): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return node.textContent || ''
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return ''
+    }
+
+    const tagName = (node as Element).localName.toLowerCase()
+    if (tagName === 'script' || tagName === 'style') {
+      return ''
+    }
+
+    let text = ''
+    node.childNodes.forEach(child => {
+      text += this.collectText(child)
+    })
+
+    return BLOCK_ELEMENTS.has(tagName) ? `\n${text}\n` : text
+  }
+}
@@ -0,0 +1,338 @@
+import { ExtractedCharacterData, RelationKind } from '../types'
+import { RELATION_KINDS, RELATION_KIND_NAMES, inferRelationKind, normalizeRelationKind } from '../utils/relationKinds'
+
+type RelationshipType = ExtractedCharacterData['relationships'][number]['type']
+
+const STATUSES: ExtractedCharacterData['status'][] = ['Alive', 'Dead', 'Unknown']
+const RELEVANCE_LEVELS: ExtractedCharacterData['relevance'][] = ['Major', 'Supporting', 'Minor']
+const RELATIONSHIP_TYPES: RelationshipType[] = ['family', 'romantic', 'conflict', 'professional', 'friendship', 'other']
+
+// Words models use instead of the defined values
+const STATUS_SYNONYMS: Record<string, ExtractedCharacterData['status']> = {
+  living: 'Alive',
+  deceased: 'Dead',
+  killed: 'Dead'
+}
+const RELEVANCE_SYNONYMS: Record<string, ExtractedCharacterData['relevance']> = {
+  main: 'Major',
+  primary: 'Major',
+  central: 'Major',
+  secondary: 'Supporting',
+  background: 'Minor'
+}
+const RELATIONSHIP_SYNONYMS: Record<string, RelationshipType> = {
+  love: 'romantic',
+  romance: 'romantic',
+  enemy: 'conflict',
+  rivalry: 'conflict',
+  work: 'professional',
+  ally: 'friendship',
+  friend: 'friendship'
+}
+
+// Fallbacks for values that match nothing. Minor relevance can only be
+// raised by later chapters, so it never overstates a character.
+const STATUS_FALLBACK: ExtractedCharacterData['status'] = 'Unknown'
+const RELEVANCE_FALLBACK: ExtractedCharacterData['relevance'] = 'Minor'
+const RELATIONSHIP_FALLBACK: RelationshipType = 'other'
+
+// Something the validator changed or threw away, with the JSON path it was at
+export interface ExtractionIssue {
+  path: string
+  action: 'coerced' | 'dropped'
+  reason: string
+}
+
+export interface ValidatedExtraction {
+  characters: ExtractedCharacterData[]
+  issues: ExtractionIssue[]
+}
+
+// The response could not be read at all; the errors are worded for the model
+// so they can go straight into a repair prompt
+export class ExtractionValidationError extends Error {
+  constructor(readonly errors: string[]) {
+    super(errors.join('; '))
+    this.name = 'ExtractionValidationError'
+  }
+}
+
+// knownCharacterIds are the roster ids the prompt offered; links to any other
+// id are dropped so a hallucinated id cannot attach facts to the wrong person
+export function validateExtractionResponse(responseText: string, knownCharacterIds: Set<string> = new Set()): ValidatedExtraction {
+  const parsed = parseJsonObject(responseText)
+
+  if (!isRecord(parsed) || !Array.isArray(parsed.characters)) {
+    throw new ExtractionValidationError(['The top-level object must have a "characters" array'])
+  }
+
+  const issues: ExtractionIssue[] = []
+  const characters: ExtractedCharacterData[] = []
+  const seenNames = new Set<string>()
+
+  parsed.characters.forEach((value: unknown, index: number) => {
+    const path = `characters[${index}]`
+    const character = validateCharacter(value, path, knownCharacterIds, issues)
+    if (!character) return
+
+    const key = character.name.toLowerCase()
+    if (seenNames.has(key)) {
+      issues.push({ path, action: 'dropped', reason: `repeats character "${character.name}"` })
+      return
+    }
+
+    seenNames.add(key)
+    characters.push(character)
+  })
+
+  return { characters, issues }
+}
+
+// The first complete JSON object in the text. Scanning for its matching brace,
+// rather than the last '}' in the text, ignores commentary after the object.
+function parseJsonObject(text: string): unknown {
+  const start = text.indexOf('{')
+  if (start === -1) {
+    throw new ExtractionValidationError(['The response contains no JSON object'])
+  }
+
+  let depth = 0
+  let inString = false
+  let escaped = false
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === '\\') escaped = true
+      else if (char === '"') inString = false
+      continue
+    }
+
+    if (char === '"') inString = true
+    else if (char === '{') depth++
+    else if (char === '}' && --depth === 0) {
+      try {
+        return JSON.parse(text.substring(start, i + 1))
+      } catch (error) {
+        throw new ExtractionValidationError([`The JSON is invalid: ${error instanceof Error ? error.message : 'Unknown error'}`])
+      }
+    }
+  }
+
+  throw new ExtractionValidationError(['The JSON object is incomplete; the response was cut off before it closed'])
+}
+
+function validateCharacter(
+  value: unknown,
+  path: string,
+  knownCharacterIds: Set<string>,
+  issues: ExtractionIssue[]
+): ExtractedCharacterData | null {
+  if (!isRecord(value)) {
+    issues.push({ path, action: 'dropped', reason: 'not an object' })
+    return null
+  }
+
+  const name = typeof value.name === 'string' ? value.name.trim() : ''
+  if (!name) {
+    issues.push({ path, action: 'dropped', reason: 'missing name' })
+    return null
+  }
+
+  const relationships: ExtractedCharacterData['relationships'] = []
+  if (Array.isArray(value.relationships)) {
+    value.relationships.forEach((relationship: unknown, index: number) => {
+      const validated = validateRelationship(relationship, `${path}.relationships[${index}]`, name, issues)
+      if (validated) relationships.push(validated)
+    })
+  } else if (value.relationships !== undefined) {
+    issues.push({ path: `${path}.relationships`, action: 'dropped', reason: 'not an array' })
+  }
+
+  let matchesExistingId: string | undefined
+  if (typeof value.matchesExistingId === 'string' && knownCharacterIds.has(value.matchesExistingId.trim())) {
+    matchesExistingId = value.matchesExistingId.trim()
+  } else if (value.matchesExistingId !== undefined && value.matchesExistingId !== null && value.matchesExistingId !== '') {
+    issues.push({ path: `${path}.matchesExistingId`, action: 'dropped', reason: `${JSON.stringify(value.matchesExistingId)} is not a roster id` })
+  }
+
+  const aliases: string[] = []
+  if (Array.isArray(value.aliases)) {
+    value.aliases.forEach((alias: unknown, index: number) => {
+      if (typeof alias === 'string' && alias.trim()) {
+        if (alias.trim().toLowerCase() !== name.toLowerCase()) aliases.push(alias.trim())
+      } else {
+        issues.push({ path: `${path}.aliases[${index}]`, action: 'dropped', reason: 'not a name' })
+      }
+    })
+  } else if (value.aliases !== undefined && value.aliases !== null) {
+    issues.push({ path: `${path}.aliases`, action: 'dropped', reason: 'not an array' })
+  }
+
+  return {
+    name,
+    matchesExistingId,
+    aliases,
+    occupation: readOptionalString(value, 'occupation', path, issues),
+    age: readOptionalString(value, 'age', path, issues),
+    location: readOptionalString(value, 'location', path, issues),
+    status: coerceEnum(value.status, STATUSES, STATUS_SYNONYMS, STATUS_FALLBACK, `${path}.status`, issues),
+    relevance: coerceEnum(value.relevance, RELEVANCE_LEVELS, RELEVANCE_SYNONYMS, RELEVANCE_FALLBACK, `${path}.relevance`, issues),
+    briefDescription: readOptionalString(value, 'briefDescription', path, issues),
+    relationships
+  }
+}
+
+function validateRelationship(
+  value: unknown,
+  path: string,
+  characterName: string,
+  issues: ExtractionIssue[]
+): ExtractedCharacterData['relationships'][number] | null {
+  if (!isRecord(value)) {
+    issues.push({ path, action: 'dropped', reason: 'not an object' })
+    return null
+  }
+
+  const targetName = typeof value.targetName === 'string' ? value.targetName.trim() : ''
+  if (!targetName) {
+    issues.push({ path, action: 'dropped', reason: 'missing targetName' })
+    return null
+  }
+  if (targetName.toLowerCase() === characterName.toLowerCase()) {
+    issues.push({ path, action: 'dropped', reason: 'relationship with itself' })
+    return null
+  }
+
+  const description = readOptionalString(value, 'description', path, issues) || ''
+  const givenKind = readRelationKind(value.kind, `${path}.kind`, issues)
+  let type = coerceEnum(value.type, RELATIONSHIP_TYPES, RELATIONSHIP_SYNONYMS, RELATIONSHIP_FALLBACK, `${path}.type`, issues)
+  if (givenKind && RELATION_KINDS[givenKind].type !== type) {
+    issues.push({ path: `${path}.type`, action: 'coerced', reason: `"${type}" replaced by "${RELATION_KINDS[givenKind].type}" to match kind "${givenKind}"` })
+    type = RELATION_KINDS[givenKind].type
+  }
+
+  // Without a kind, the description may still name one, e.g. "father of". A
+  // guess never overrides the type: "fought beside him until he was killed"
+  // is a friendship, not a killing.
+  const guessedKind = givenKind ? undefined : inferRelationKind(description)
+  const kind = givenKind || (guessedKind && RELATION_KINDS[guessedKind].type === type ? guessedKind : undefined)
+
+  return {
+    targetName,
+    type,
+    ...(kind ? { kind } : {}),
+    description,
+    ...(readOptionalBoolean(value, 'ended', path, issues) ? { ended: true } : {})
+  }
+}
+
+// A kind from the vocabulary, read the usual ways it gets written
+function readRelationKind(value: unknown, path: string, issues: ExtractionIssue[]): RelationKind | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+
+  if (typeof value === 'string') {
+    if (RELATION_KIND_NAMES.includes(value as RelationKind)) return value as RelationKind
+
+    const match = normalizeRelationKind(value) || inferRelationKind(value)
+    if (match) {
+      issues.push({ path, action: 'coerced', reason: `"${value}" read as "${match}"` })
+      return match
+    }
+  }
+
+  issues.push({ path, action: 'dropped', reason: `unknown kind ${JSON.stringify(value)}` })
+  return undefined
+}
+
+function readOptionalString(record: Record<string, unknown>, key: string, path: string, issues: ExtractionIssue[]): string | undefined {
+  const value = record[key]
+  if (value === undefined || value === null) return undefined
+
+  if (typeof value === 'number') {
+    issues.push({ path: `${path}.${key}`, action: 'coerced', reason: `number ${value} read as text` })
+    return String(value)
+  }
+  if (typeof value !== 'string') {
+    issues.push({ path: `${path}.${key}`, action: 'dropped', reason: `expected text, got ${Array.isArray(value) ? 'array' : typeof value}` })
+    return undefined
+  }
+
+  return value.trim() || undefined
+}
+
+function readOptionalBoolean(record: Record<string, unknown>, key: string, path: string, issues: ExtractionIssue[]): boolean | undefined {
+  const value = record[key]
+  if (value === undefined || value === null) return undefined
+  if (typeof value === 'boolean') return value
+
+  if (value === 'true' || value === 'false') {
+    issues.push({ path: `${path}.${key}`, action: 'coerced', reason: `string "${value}" read as a boolean` })
+    return value === 'true'
+  }
+
+  issues.push({ path: `${path}.${key}`, action: 'dropped', reason: `expected true or false, got ${JSON.stringify(value)}` })
+  return undefined
+}
+
+// Exact matches pass silently; case differences, synonyms and near-misspellings
+// of a whole value are mapped; anything else takes the fallback. A shared prefix
+// is not enough: "confidant" is not "conflict", nor "alien" "Alive".
+function coerceEnum<T extends string>(
+  value: unknown,
+  allowed: T[],
+  synonyms: Record<string, T>,
+  fallback: T,
+  path: string,
+  issues: ExtractionIssue[]
+): T {
+  if (typeof value === 'string' && (allowed as string[]).includes(value)) {
+    return value as T
+  }
+
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : ''
+  const match = allowed.find(option => option.toLowerCase() === normalized)
+    || synonyms[normalized]
+    || findMisspelling(normalized, allowed)
+
+  if (match) {
+    issues.push({ path, action: 'coerced', reason: `"${value}" read as "${match}"` })
+    return match
+  }
+
+  issues.push({
+    path,
+    action: 'coerced',
+    reason: `${value === undefined ? 'missing' : `unknown value ${JSON.stringify(value)}`}, used "${fallback}"`
+  })
+  return fallback
+}
+
+// The one option a value is a slip away from: a letter off, or two in longer
+// words such as "freindship". Ties are too uncertain to pick from.
+function findMisspelling<T extends string>(value: string, allowed: T[]): T | undefined {
+  if (value.length < 4) return undefined
+
+  const maxDistance = value.length >= 8 ? 2 : 1
+  const close = allowed.filter(option => editDistance(value, option.toLowerCase()) <= maxDistance)
+  return close.length === 1 ? close[0] : undefined
+}
+
+// Levenshtein distance
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
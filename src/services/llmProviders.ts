@@ -0,0 +1,337 @@
+import { GeminiResponse, LlmProviderType, LlmSettings } from '../types'
+
+// A model that turns a prompt into text. Extraction only needs single-turn
+// completions, so that is all providers implement.
+export interface LlmProvider {
+  readonly type: LlmProviderType
+  readonly model: string
+  generate(prompt: string, signal?: AbortSignal): Promise<string>
+  listModels(): Promise<string[]>
+}
+
+// Local servers usually run without a key, so it is optional for chat completions
+export type ApiKeyRequirement = 'required' | 'optional' | 'none'
+
+export const LLM_PROVIDER_DEFAULTS: Record<LlmProviderType, {
+  label: string
+  model: string
+  baseUrl?: string
+  apiKey: ApiKeyRequirement
+}> = {
+  'gemini': { label: 'Google Gemini', model: 'gemini-2.0-flash', apiKey: 'required' },
+  'openai-compatible': { label: 'OpenAI-compatible server', model: 'gpt-4o-mini', baseUrl: 'https://api.openai.com/v1', apiKey: 'optional' },
+  'ollama': { label: 'Ollama (local)', model: 'llama3.1', baseUrl: 'http://localhost:11434', apiKey: 'none' },
+  'fake': { label: 'Test provider (canned data)', model: 'fake', apiKey: 'none' }
+}
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  model: LLM_PROVIDER_DEFAULTS.gemini.model
+}
+
+// A non-2xx reply from a provider's API. Keeps the status so callers can tell
+// rate limiting and server trouble from bad requests and bad keys.
+export class LlmHttpError extends Error {
+  constructor(api: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(`${api} error: ${status}`)
+    this.name = 'LlmHttpError'
+  }
+
+  static fromResponse(api: string, response: Response): LlmHttpError {
+    const retryAfter = Number(response.headers.get('Retry-After'))
+    return new LlmHttpError(api, response.status, retryAfter > 0 ? retryAfter * 1000 : undefined)
+  }
+
+  get isRetryable(): boolean {
+    return this.status === 429 || this.status >= 500
+  }
+}
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta'
+
+export class GeminiProvider implements LlmProvider {
+  readonly type = 'gemini'
+
+  constructor(readonly model: string, private apiKey: string) {}
+
+  async generate(prompt: string, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(`${GEMINI_API_URL}/models/${encodeURIComponent(this.model)}:generateContent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-goog-api-key': this.apiKey
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{
+            text: prompt
+          }]
+        }]
+      }),
+      signal
+    })
+
+    if (!response.ok) {
+      throw LlmHttpError.fromResponse('Gemini API', response)
+    }
+
+    const data: GeminiResponse = await response.json()
+
+    if (!data.candidates || data.candidates.length === 0) {
+      throw new Error('No candidates returned from Gemini API')
+    }
+
+    return data.candidates[0].content.parts[0].text
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${GEMINI_API_URL}/models`, {
+      headers: { 'X-goog-api-key': this.apiKey }
+    })
+
+    if (!response.ok) {
+      throw LlmHttpError.fromResponse('Gemini API', response)
+    }
+
+    const data: { models?: Array<{ name: string; supportedGenerationMethods?: string[] }> } = await response.json()
+    return (data.models || [])
+      .filter(model => model.supportedGenerationMethods?.includes('generateContent'))
+      .map(model => model.name.replace(/^models\//, ''))
+  }
+}
+
+// Chat-completions API as served by OpenAI and most self-hosted model servers
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly type = 'openai-compatible'
+
+  constructor(readonly model: string, private baseUrl: string, private apiKey?: string) {}
+
+  async generate(prompt: string, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(`${trimTrailingSlash(this.baseUrl)}/chat/completions`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0
+      }),
+      signal
+    })
+
+    if (!response.ok) {
+      throw LlmHttpError.fromResponse('Chat completions API', response)
+    }
+
+    const data: { choices?: Array<{ message?: { content?: string } }> } = await response.json()
+    const content = data.choices?.[0]?.message?.content
+
+    if (!content) {
+      throw new Error('No completion returned from chat completions API')
+    }
+
+    return content
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${trimTrailingSlash(this.baseUrl)}/models`, { headers: this.getHeaders() })
+
+    if (!response.ok) {
+      throw LlmHttpError.fromResponse('Chat completions API', response)
+    }
+
+    const data: { data?: Array<{ id: string }> } = await response.json()
+    return (data.data || []).map(model => model.id)
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`
+    }
+    return headers
+  }
+}
+
+export class OllamaProvider implements LlmProvider {
+  readonly type = 'ollama'
+
+  constructor(readonly model: string, private baseUrl: string) {}
+
+  async generate(prompt: string, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(`${trimTrailingSlash(this.baseUrl)}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        stream: false,
+        format: 'json',
+        options: { temperature: 0 }
+      }),
+      signal
+    })
+
+    if (!response.ok) {
+      throw LlmHttpError.fromResponse('Ollama API', response)
+    }
+
+    const data: { message?: { content?: string } } = await response.json()
+
+    if (!data.message?.content) {
+      throw new Error('No message returned from Ollama API')
+    }
+
+    return data.message.content
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${trimTrailingSlash(this.baseUrl)}/api/tags`)
+
+    if (!response.ok) {
+      throw LlmHttpError.fromResponse('Ollama API', response)
+    }
+
+    const data: { models?: Array<{ name: string }> } = await response.json()
+    return (data.models || []).map(model => model.name)
+  }
+}
+
+const FAKE_EXTRACTION_RESPONSE = JSON.stringify({
+  characters: [
+    {
+      name: 'Ada Example',
+      occupation: 'Lighthouse keeper',
+      age: 'Forties',
+      location: 'Gull Point',
+      status: 'Alive',
+      relevance: 'Major',
+      briefDescription: 'Keeps the lighthouse and narrates the storm.',
+      relationships: [{ targetName: 'Tom Example', type: 'family', description: 'sister of' }]
+    },
+    {
+      name: 'Tom Example',
+      occupation: 'Fisherman',
+      age: 'Thirties',
+      location: 'Gull Point',
+      status: 'Unknown',
+      relevance: 'Supporting',
+      briefDescription: 'Missing at sea since the storm began.',
+      relationships: [{ targetName: 'Ada Example', type: 'family', description: 'brother of' }]
+    }
+  ]
+})
+
+// Replays canned responses in order, cycling when they run out, and records
+// every prompt it was given. Lets extraction run without a network.
+export class FakeLlmProvider implements LlmProvider {
+  readonly type = 'fake'
+  readonly model = 'fake'
+  readonly prompts: string[] = []
+
+  constructor(private responses: string[] = [FAKE_EXTRACTION_RESPONSE]) {}
+
+  async generate(prompt: string): Promise<string> {
+    const response = this.responses[this.prompts.length % this.responses.length]
+    this.prompts.push(prompt)
+    return response
+  }
+
+  async listModels(): Promise<string[]> {
+    return [this.model]
+  }
+}
+
+export interface RateLimitOptions {
+  minIntervalMs: number // Between the starts of two requests
+  maxRetries: number
+  baseBackoffMs: number // Doubled on every retry
+  signal?: AbortSignal
+}
+
+// Roughly the free-tier Gemini limit of 15 requests a minute
+export const DEFAULT_RATE_LIMIT: RateLimitOptions = {
+  minIntervalMs: 4000,
+  maxRetries: 5,
+  baseBackoffMs: 2000
+}
+
+// Spaces out requests to another provider and retries rate-limited (429) and
+// server (5xx) errors with exponential backoff, so one busy moment does not
+// lose a whole chapter's worth of chunk requests.
+export class RateLimitedProvider implements LlmProvider {
+  private lastRequestAt = 0
+
+  constructor(private inner: LlmProvider, private options: RateLimitOptions) {}
+
+  get type(): LlmProviderType {
+    return this.inner.type
+  }
+
+  get model(): string {
+    return this.inner.model
+  }
+
+  async generate(prompt: string): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+      await sleep(this.lastRequestAt + this.options.minIntervalMs - Date.now(), this.options.signal)
+      this.lastRequestAt = Date.now()
+
+      try {
+        return await this.inner.generate(prompt, this.options.signal)
+      } catch (error) {
+        if (!(error instanceof LlmHttpError) || !error.isRetryable || attempt >= this.options.maxRetries) {
+          throw error
+        }
+
+        const delay = error.retryAfterMs ?? this.options.baseBackoffMs * 2 ** attempt
+        console.warn(`${error.message}, retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1} of ${this.options.maxRetries})`)
+        await sleep(delay, this.options.signal)
+      }
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    return await this.inner.listModels()
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'))
+      return
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, Math.max(0, ms))
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+export function createLlmProvider(settings: LlmSettings, apiKey?: string): LlmProvider {
+  const baseUrl = settings.baseUrl || LLM_PROVIDER_DEFAULTS[settings.provider].baseUrl || ''
+
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(settings.model, baseUrl, apiKey)
+    case 'ollama':
+      return new OllamaProvider(settings.model, baseUrl)
+    case 'fake':
+      return new FakeLlmProvider()
+    default:
+      if (!apiKey) {
+        throw new Error('Gemini needs an API key. Add yours under AI Settings.')
+      }
+      return new GeminiProvider(settings.model, apiKey)
+  }
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '')
+}
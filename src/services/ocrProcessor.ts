@@ -0,0 +1,111 @@
+import * as pdfjsLib from 'pdfjs-dist'
+import { createWorker } from 'tesseract.js'
+import type { Page, Worker } from 'tesseract.js'
+import { PageTextItem, PageTextLayout, PageTextLine } from './pdfProcessor'
+import { joinItemText } from './pdfTextCleanup'
+
+// Engine files are served by the app itself (see ocrAssets in vite.config.ts)
+const OCR_BASE_URL = `${import.meta.env.BASE_URL}ocr/`
+
+// Tesseract reads body text best at around 300 DPI; PDF space is 72 DPI
+const OCR_RENDER_SCALE = 3
+
+// Reads scanned PDF pages. Rendering needs a canvas, so pages are drawn on
+// the calling thread and recognition runs in Tesseract's own worker.
+export class OcrProcessor {
+  private worker: Worker | null = null
+
+  async recognizePage(page: pdfjsLib.PDFPageProxy): Promise<{ layout: PageTextLayout; confidence: number }> {
+    const worker = await this.getWorker()
+    const viewport = page.getViewport({ scale: OCR_RENDER_SCALE })
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.ceil(viewport.width)
+    canvas.height = Math.ceil(viewport.height)
+
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Canvas rendering is not available')
+    }
+
+    try {
+      await page.render({ canvasContext: context, viewport }).promise
+      const { data } = await worker.recognize(canvas, {}, { blocks: true })
+
+      return { layout: buildOcrLayout(data, page, viewport), confidence: data.confidence }
+    } finally {
+      // Large canvases are slow to be collected, so release the pixels now
+      canvas.width = 0
+      canvas.height = 0
+    }
+  }
+
+  async terminate(): Promise<void> {
+    if (this.worker) {
+      await this.worker.terminate()
+      this.worker = null
+    }
+  }
+
+  private async getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      // OEM 1: LSTM only, which is all the bundled core and language data support
+      this.worker = await createWorker('eng', 1, {
+        workerPath: `${OCR_BASE_URL}worker.min.js`,
+        corePath: `${OCR_BASE_URL}core`,
+        langPath: `${OCR_BASE_URL}lang`,
+        cacheMethod: 'none'
+      })
+    }
+
+    return this.worker
+  }
+}
+
+// Turn OCR output into the same layout getPageTextLayout builds from a text
+// layer, converting canvas pixels back to PDF user space
+function buildOcrLayout(
+  result: Page,
+  page: pdfjsLib.PDFPageProxy,
+  viewport: pdfjsLib.PageViewport
+): PageTextLayout {
+  const toPdfPoint = (x: number, y: number) => viewport.convertToPdfPoint(x, y) as [number, number]
+  const lines: PageTextLine[] = []
+  const fontSizes: number[] = []
+  let text = ''
+
+  for (const block of result.blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const ocrLine of paragraph.lines) {
+        const words = ocrLine.words.filter(word => word.text.trim())
+        if (words.length === 0) continue
+
+        const height = (ocrLine.bbox.y1 - ocrLine.bbox.y0) / OCR_RENDER_SCALE
+        const [x, y] = toPdfPoint(ocrLine.bbox.x0, ocrLine.bbox.y1)
+        const items: PageTextItem[] = words.map(word => ({
+          str: word.text,
+          x: toPdfPoint(word.bbox.x0, word.bbox.y1)[0],
+          // Superscripts keep their own height so footnote markers still stand out
+          height: word.symbols.length > 0 && word.symbols.every(symbol => symbol.is_superscript)
+            ? (word.bbox.y1 - word.bbox.y0) / OCR_RENDER_SCALE
+            : height
+        }))
+
+        lines.push({ text: joinItemText(items), offset: text.length, x, y, height, items })
+        for (const item of items) {
+          text += item.str + ' '
+          fontSizes.push(item.height)
+        }
+      }
+    }
+  }
+
+  const [, viewBottom, , viewTop] = page.view
+
+  return {
+    text: text.trimEnd(),
+    fontSizes,
+    pageBottom: viewBottom,
+    pageHeight: viewTop - viewBottom,
+    lines
+  }
+}
@@ -1,122 +1,686 @@
 import * as pdfjsLib from 'pdfjs-dist'
-import { ChapterBoundary } from '../types'
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url'
+import {
+  ChapterBoundary,
+  ChapterCandidate,
+  ChapterDetectionResult,
+  ExtractedBookText,
+  IngestionProgress
+} from '../types'
+import {
+  ChapterStart,
+  applyMatterTitles,
+  clipLocationText,
+  createChapterBoundaries,
+  getMatterForTitle,
+  isUnnumberedTitle,
+  splitMatterRanges
+} from '../utils/chapterBoundaries'
+import { CleanLine, RUNNING_LINE_WINDOW, buildParagraphs, cleanPageLines, joinItemText } from './pdfTextCleanup'
 
-// Configure PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`
+type OutlineNode = Awaited<ReturnType<pdfjsLib.PDFDocumentProxy['getOutline']>>[number]
+
+// One strategy's evidence that a page opens a chapter, before signals are merged
+type CandidateSignal = Omit<ChapterCandidate, 'snippet'>
+
+// Top-level bookmarks with these titles group chapters rather than being chapters
+const PART_TITLE_PATTERN = /^(part|book|volume|act)\b/i
+
+// "Title ....... 37", "Title   37" or "Title 37" as printed on a contents page
+const CONTENTS_ENTRY_PATTERN = /^(.*?[^\s.·…_-])(?:\s*[.·…_-]\s*){2,}\s*(\d{1,4})$|^(.*?\S)\s+(\d{1,4})$/
+const CONTENTS_HEADING_PATTERN = /^(table of )?contents$/i
+
+// Contents pages sit in the front matter, so only look this far in
+const CONTENTS_SEARCH_PAGE_LIMIT = 30
+const MIN_CONTENTS_ENTRIES = 3
+
+// Title pages, dedications and epigraphs carry very little text
+const SPARSE_PAGE_CHARACTERS = 400
+const COPYRIGHT_PATTERN = /©|\(c\)\s*\d{4}|all rights reserved|\bisbn\b|library of congress|first published/i
+const STORY_HEADING_PATTERN = /^(chapter|part|book|volume|act)\b|^\d{1,3}$/i
+
+// Back matter is only looked for in this last share of the book
+const BACK_MATTER_FRACTION = 0.15
+
+// How much each kind of evidence is trusted, from 0 to 1
+const OUTLINE_CONFIDENCE = 0.95
+const CONTENTS_CONFIDENCE = 0.85
+const CHAPTER_MARKER_PATTERNS: Array<{ pattern: RegExp; confidence: number }> = [
+  { pattern: /chapter\s+(\d+)/i, confidence: 0.8 },
+  { pattern: /chapter\s+([ivxlcdm]+)\b/i, confidence: 0.75 },
+  { pattern: /^(prologue|epilogue|interlude)\b/i, confidence: 0.7 },
+  { pattern: /ch\.\s*(\d+)/i, confidence: 0.6 },
+  { pattern: /^(\d+)\.\s*[A-Z]/, confidence: 0.45 },
+  { pattern: /^[A-Z\s]{4,}$/, confidence: 0.25 } // All caps lines (potential chapter titles)
+]
+
+// Headings sit in the first few lines once running heads are stripped
+const HEADING_LINE_COUNT = 4
+// Weaker marker matches are offered as candidates but not used as boundaries
+const MARKER_ACCEPT_CONFIDENCE = 0.4
+const MIN_CANDIDATE_CONFIDENCE = 0.3
+// "Find next chapter start" stops at the first page at least this likely
+const NEXT_START_CONFIDENCE = 0.5
+const SNIPPET_LENGTH = 160
+
+// Configure PDF.js worker - bundled with the app so parsing also works offline
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl
+
+export interface PageTextItem {
+  str: string
+  x: number
+  height: number
+}
+
+export interface PageTextLine {
+  text: string
+  offset: number // Where the line starts in the page text
+  x: number
+  y: number // Baseline in PDF user space, which grows upwards
+  height: number
+  items: PageTextItem[] // Left to right
+}
+
+export interface PageTextLayout {
+  text: string
+  fontSizes: number[]
+  lines: PageTextLine[]
+  pageBottom: number
+  pageHeight: number
+}
+
+// The page text used for extraction plus the visual lines it is made of, top
+// of the page first. Chapter split offsets index into this text, so the editor
+// and extraction must both build it here.
+export async function getPageTextLayout(page: pdfjsLib.PDFPageProxy): Promise<PageTextLayout> {
+  const textContent = await page.getTextContent()
+  const lines: PageTextLine[] = []
+  const fontSizes: number[] = []
+  let text = ''
+
+  textContent.items.forEach((item) => {
+    if (!('str' in item)) return
+
+    const offset = text.length
+    text += item.str + ' '
+    fontSizes.push(item.height)
+
+    if (!item.str.trim()) return
+
+    // Group items that share a baseline into one visual line
+    const x = item.transform[4]
+    const y = item.transform[5]
+    const tolerance = Math.max(2, item.height * 0.5)
+    const line = lines.find(candidate => Math.abs(candidate.y - y) <= tolerance)
+    const textItem = { str: item.str, x, height: item.height }
+
+    if (line) {
+      line.items.push(textItem)
+      line.offset = Math.min(line.offset, offset)
+      line.x = Math.min(line.x, x)
+      line.height = Math.max(line.height, item.height)
+    } else {
+      lines.push({ text: '', offset, x, y, height: item.height, items: [textItem] })
+    }
+  })
+
+  const [, viewBottom, , viewTop] = page.view
+
+  return {
+    text: text.trimEnd(),
+    fontSizes,
+    pageBottom: viewBottom,
+    pageHeight: viewTop - viewBottom,
+    lines: lines
+      .sort((a, b) => b.y - a.y)
+      .map(line => {
+        const items = line.items.sort((a, b) => a.x - b.x)
+        return {
+          ...line,
+          items,
+          text: joinItemText(items)
+        }
+      })
+      .filter(line => line.text.length > 0)
+  }
+}
 
 export class PDFProcessor {
   private pdfDocument: pdfjsLib.PDFDocumentProxy | null = null
+  // Text layouts of pages parsed so far, so detection passes and extraction share the work
+  private layoutCache = new Map<number, PageTextLayout>()
+  // Layouts read by OCR for scanned pages, used in place of their empty text layer
+  private ocrLayouts = new Map<number, PageTextLayout>()
+  private onProgress: ((progress: IngestionProgress) => void) | null = null
 
   async loadPDF(file: File): Promise<void> {
     const arrayBuffer = await file.arrayBuffer()
+    this.layoutCache.clear()
+    this.ocrLayouts.clear()
     this.pdfDocument = await pdfjsLib.getDocument(arrayBuffer).promise
   }
 
-  async extractTextFromPage(pageNumber: number): Promise<{ text: string; fontSize: number[] }> {
+  setOcrLayouts(layouts: Record<number, PageTextLayout>): void {
+    for (const [page, layout] of Object.entries(layouts)) {
+      this.ocrLayouts.set(Number(page), layout)
+      this.layoutCache.delete(Number(page))
+    }
+  }
+
+  // Pages with no text layer (scans) that have not been through OCR yet
+  async findPagesNeedingOcr(onProgress?: (progress: IngestionProgress) => void): Promise<number[]> {
+    const totalPages = this.getTotalPages()
+    const pages: number[] = []
+
+    for (let page = 1; page <= totalPages; page++) {
+      onProgress?.({ stage: 'Checking for a text layer', page, totalPages })
+      if (!this.ocrLayouts.has(page) && !(await this.getLayout(page)).text.trim()) {
+        pages.push(page)
+      }
+    }
+
+    return pages
+  }
+
+  async getPage(pageNumber: number): Promise<pdfjsLib.PDFPageProxy> {
     if (!this.pdfDocument) {
       throw new Error('PDF not loaded')
     }
 
-    const page = await this.pdfDocument.getPage(pageNumber)
-    const textContent = await page.getTextContent()
-    
-    let text = ''
-    const fontSizes: number[] = []
-
-    textContent.items.forEach((item) => {
-      if ('str' in item) {
-        text += item.str + ' '
-        if ('height' in item) {
-          fontSizes.push(item.height)
-        }
-      }
-    })
+    return await this.pdfDocument.getPage(pageNumber)
+  }
 
-    return { text: text.trim(), fontSize: fontSizes }
+  async extractTextFromPage(pageNumber: number): Promise<{ text: string; fontSize: number[] }> {
+    const { text, fontSizes } = await this.getLayout(pageNumber)
+
+    return { text, fontSize: fontSizes }
   }
 
+  // One page's text with the same cleanup as extractChapterText
+  async extractCleanPageText(pageNumber: number): Promise<string> {
+    const layout = await this.getLayout(pageNumber)
+    const lines = await this.getCleanLines(pageNumber, layout.lines)
+
+    return buildParagraphs([lines]).join('\n')
+  }
+
+  // Chapter text for analysis, without running heads, page numbers or footnote
+  // markers and with paragraphs rebuilt from the page layout
   async extractChapterText(chapterBoundary: ChapterBoundary): Promise<string> {
+    const { startPage, endPage, startOffset, endOffset } = chapterBoundary
+    const pages: CleanLine[][] = []
+
+    for (let page = startPage; page <= endPage; page++) {
+      const layout = await this.getLayout(page)
+
+      // Split points always fall at the start of a line
+      const lines = layout.lines.filter(line =>
+        (page !== startPage || line.offset >= (startOffset ?? 0)) &&
+        (page !== endPage || endOffset === undefined || line.offset < endOffset)
+      )
+
+      pages.push(await this.getCleanLines(page, lines))
+    }
+
+    return buildParagraphs(pages).join('\n')
+  }
+
+  // Chapter text exactly as it appears in the PDF's text layer
+  async extractRawChapterText(chapterBoundary: ChapterBoundary): Promise<string> {
     let chapterText = ''
     
     for (let page = chapterBoundary.startPage; page <= chapterBoundary.endPage; page++) {
       const { text } = await this.extractTextFromPage(page)
-      chapterText += text + '\n'
+      chapterText += clipLocationText(text, page, chapterBoundary) + '\n'
     }
     
     return chapterText
   }
 
-  async detectChapters(): Promise<ChapterBoundary[]> {
+  // Raw and cleaned text of every page and of the given chapters
+  async extractBookText(
+    chapterBoundaries: ChapterBoundary[],
+    includePages: boolean,
+    onProgress?: (progress: IngestionProgress) => void
+  ): Promise<ExtractedBookText> {
+    const result: ExtractedBookText = { pages: [], chapters: [] }
+    const totalPages = this.getTotalPages()
+
+    if (includePages) {
+      for (let page = 1; page <= totalPages; page++) {
+        onProgress?.({ stage: 'Extracting text', page, totalPages })
+        const { text: rawText } = await this.extractTextFromPage(page)
+        const text = await this.extractCleanPageText(page)
+        result.pages.push({ page, rawText, text })
+      }
+    }
+
+    for (const boundary of chapterBoundaries) {
+      result.chapters.push({
+        chapter: boundary.chapter,
+        rawText: await this.extractRawChapterText(boundary),
+        text: await this.extractChapterText(boundary)
+      })
+    }
+
+    return result
+  }
+
+  async detectChapters(onProgress?: (progress: IngestionProgress) => void): Promise<ChapterDetectionResult> {
+    this.onProgress = onProgress || null
+    try {
+      const { chapterBoundaries, strategy, candidates } = await this.runChapterDetection()
+      return { chapterBoundaries: await this.classifyMatter(chapterBoundaries), strategy, candidates }
+    } finally {
+      this.onProgress = null
+    }
+  }
+
+  // Every likely chapter start by every strategy, for reviewing in the editor.
+  // This walks the whole book several times, so it only runs when asked.
+  async findChapterCandidates(onProgress?: (progress: IngestionProgress) => void): Promise<ChapterCandidate[]> {
+    if (!this.pdfDocument) {
+      throw new Error('PDF not loaded')
+    }
+
+    this.onProgress = onProgress || null
+    try {
+      const totalPages = this.pdfDocument.numPages
+      this.reportProgress('Reading bookmarks', 0)
+
+      return await this.buildCandidates([
+        ...(await this.findChaptersFromOutline()).map(start => this.toSignal(start, 'outline', OUTLINE_CONFIDENCE)),
+        ...(await this.findChaptersFromContentsPage(totalPages)).map(start => this.toSignal(start, 'contents-page', CONTENTS_CONFIDENCE)),
+        ...await this.findExplicitChapterMarkers(totalPages),
+        ...await this.findChaptersByFontSize(totalPages)
+      ])
+    } finally {
+      this.onProgress = null
+    }
+  }
+
+  // The most reliable strategy that finds anything gives the boundaries; later
+  // ones are not run. Candidates come from the strategies that did run.
+  private async runChapterDetection(): Promise<ChapterDetectionResult> {
     if (!this.pdfDocument) {
       throw new Error('PDF not loaded')
     }
 
     const totalPages = this.pdfDocument.numPages
+    this.reportProgress('Reading bookmarks', 0)
 
-    
-    // Method 1: Look for explicit chapter markers
-    const explicitChapters = await this.findExplicitChapterMarkers(totalPages)
+    // Method 1: Use the PDF's own bookmarks
+    const outlineChapters = await this.findChaptersFromOutline()
+    if (outlineChapters.length > 0) {
+      return {
+        chapterBoundaries: createChapterBoundaries(outlineChapters, totalPages),
+        strategy: 'outline',
+        candidates: await this.buildCandidates(outlineChapters.map(start => this.toSignal(start, 'outline', OUTLINE_CONFIDENCE)))
+      }
+    }
+
+    // Method 2: Parse a printed table of contents
+    const contentsChapters = await this.findChaptersFromContentsPage(totalPages)
+    if (contentsChapters.length > 0) {
+      return {
+        chapterBoundaries: createChapterBoundaries(contentsChapters, totalPages),
+        strategy: 'contents-page',
+        candidates: await this.buildCandidates(contentsChapters.map(start => this.toSignal(start, 'contents-page', CONTENTS_CONFIDENCE)))
+      }
+    }
+
+    // Method 3: Look for explicit chapter markers
+    const markerSignals = await this.findExplicitChapterMarkers(totalPages)
+    const explicitChapters = this.deduplicateChapterPages(
+      markerSignals.filter(signal => signal.confidence >= MARKER_ACCEPT_CONFIDENCE).map(signal => signal.page)
+    )
     if (explicitChapters.length > 0) {
-      return this.createChapterBoundaries(explicitChapters, totalPages)
+      return {
+        chapterBoundaries: createChapterBoundaries(explicitChapters, totalPages),
+        strategy: 'chapter-markers',
+        candidates: await this.buildCandidates(markerSignals)
+      }
     }
 
-    // Method 2: Analyze font sizes
-    const fontSizeChapters = await this.findChaptersByFontSize(totalPages)
+    // Method 4: Analyze font sizes
+    const fontSizeSignals = await this.findChaptersByFontSize(totalPages)
+    const candidates = await this.buildCandidates([...markerSignals, ...fontSizeSignals])
+    const fontSizeChapters = this.deduplicateChapterPages(fontSizeSignals.map(signal => signal.page))
     if (fontSizeChapters.length > 0) {
-      return this.createChapterBoundaries(fontSizeChapters, totalPages)
+      return { chapterBoundaries: createChapterBoundaries(fontSizeChapters, totalPages), strategy: 'font-size', candidates }
     }
 
-    // Method 3: Manual fallback - return single chapter
-    return [{
-      chapter: 1,
-      startPage: 1,
-      endPage: totalPages
-    }]
+    // Method 5: Manual fallback - return single chapter
+    return {
+      chapterBoundaries: [{
+        chapter: 1,
+        startPage: 1,
+        endPage: totalPages
+      }],
+      strategy: 'single-chapter',
+      candidates
+    }
   }
 
-  private async findExplicitChapterMarkers(totalPages: number): Promise<number[]> {
-    const chapterPages: number[] = []
-    const chapterPatterns = [
-      /chapter\s+(\d+)/i,
-      /chapter\s+([ivxlcdm]+)/i,
-      /ch\.\s*(\d+)/i,
-      /^(\d+)\.\s*[A-Z]/,
-      /^[A-Z\s]+$/  // All caps lines (potential chapter titles)
-    ]
+  // Scan forward from a page for the next one that looks like a chapter opening
+  async findNextChapterStart(afterPage: number): Promise<ChapterCandidate | null> {
+    const totalPages = this.getTotalPages()
 
-    for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+    for (let pageNum = afterPage + 1; pageNum <= totalPages; pageNum++) {
+      const layout = await this.getLayout(pageNum)
+      const signals = [await this.findMarkerSignal(pageNum), this.findPageFontSizeSignal(pageNum, layout)]
+      const [candidate] = await this.buildCandidates(signals.filter((signal): signal is CandidateSignal => signal !== null))
+
+      if (candidate && candidate.confidence >= NEXT_START_CONFIDENCE) {
+        return candidate
+      }
+    }
+
+    return null
+  }
+
+  // Front matter runs from the first page until the first page that looks
+  // like story. Back matter starts at the first matter heading (or copyright
+  // page) near the end and runs to the last page.
+  private async classifyMatter(boundaries: ChapterBoundary[]): Promise<ChapterBoundary[]> {
+    const totalPages = this.getTotalPages()
+    const titledBoundaries = applyMatterTitles(boundaries, totalPages)
+
+    let frontEnd = 0
+    const frontLimit = Math.min(CONTENTS_SEARCH_PAGE_LIMIT, Math.floor(totalPages / 4))
+    for (let pageNum = 1; pageNum <= frontLimit; pageNum++) {
+      this.reportProgress('Finding front and back matter', pageNum)
+      if (!(await this.isFrontMatterPage(pageNum, titledBoundaries))) break
+      frontEnd = pageNum
+    }
+
+    let backStart = totalPages + 1
+    const backSearchStart = Math.max(frontEnd + 1, totalPages - Math.ceil(totalPages * BACK_MATTER_FRACTION) + 1)
+    for (let pageNum = backSearchStart; pageNum <= totalPages; pageNum++) {
+      this.reportProgress('Finding front and back matter', pageNum)
+      const lines = await this.extractLinesFromPage(pageNum)
+      const hasMatterHeading = lines.slice(0, 3).some(line => getMatterForTitle(line, pageNum, totalPages) === 'back')
+
+      if (hasMatterHeading || COPYRIGHT_PATTERN.test(lines.join(' '))) {
+        backStart = pageNum
+        break
+      }
+    }
+
+    // Never classify the whole book away
+    if (frontEnd >= backStart - 1) return titledBoundaries
+
+    return splitMatterRanges(titledBoundaries, frontEnd, backStart)
+  }
+
+  private async isFrontMatterPage(pageNumber: number, boundaries: ChapterBoundary[]): Promise<boolean> {
+    const boundary = boundaries.find(b => pageNumber >= b.startPage && pageNumber <= b.endPage)
+    if (boundary?.matter === 'front') return true
+
+    // A chapter or part opening is story, even on a nearly empty page
+    if (boundary?.title && boundary.startPage === pageNumber) return false
+
+    const lines = await this.extractLinesFromPage(pageNumber)
+    const topLines = lines.slice(0, 3)
+    if (topLines.some(line => STORY_HEADING_PATTERN.test(line) || isUnnumberedTitle(line))) return false
+
+    const { text } = await this.getLayout(pageNumber)
+    return text.length < SPARSE_PAGE_CHARACTERS ||
+      COPYRIGHT_PATTERN.test(text) ||
+      topLines.some(line => getMatterForTitle(line, pageNumber, this.getTotalPages()) === 'front') ||
+      this.parseContentsEntries(lines).length >= MIN_CONTENTS_ENTRIES
+  }
+
+  async extractLinesFromPage(pageNumber: number): Promise<string[]> {
+    const { lines } = await this.getLayout(pageNumber)
+
+    return lines.map(line => line.text)
+  }
+
+  // Printed page numbers ("xii", "37"), indexed by PDF page number - 1
+  async getPageLabels(): Promise<string[] | null> {
+    if (!this.pdfDocument) {
+      throw new Error('PDF not loaded')
+    }
+
+    try {
+      return await this.pdfDocument.getPageLabels()
+    } catch (error) {
+      console.warn('Error reading page labels:', error)
+      return null
+    }
+  }
+
+  private async findChaptersFromOutline(): Promise<ChapterStart[]> {
+    if (!this.pdfDocument) return []
+
+    let outline: OutlineNode[] | null = null
+    try {
+      outline = await this.pdfDocument.getOutline()
+    } catch (error) {
+      console.warn('Error reading PDF outline:', error)
+    }
+
+    if (!outline || outline.length === 0) return []
+
+    const chapterStarts: ChapterStart[] = []
+
+    for (const node of outline) {
+      const children = (node.items || []) as OutlineNode[]
+
+      if (children.length > 0 && PART_TITLE_PATTERN.test(node.title.trim())) {
+        // Part-level bookmark: its children are the chapters
+        for (const child of children) {
+          const page = await this.resolveOutlineDestination(child.dest)
+          if (page) {
+            chapterStarts.push({ page, title: child.title.trim(), part: node.title.trim() })
+          }
+        }
+        continue
+      }
+
+      const page = await this.resolveOutlineDestination(node.dest)
+      if (page) {
+        chapterStarts.push({ page, title: node.title.trim() })
+      }
+    }
+
+    // Several bookmarks can point at one page; keep the first for each page
+    const seenPages = new Set<number>()
+    return chapterStarts
+      .sort((a, b) => a.page - b.page)
+      .filter(start => {
+        if (seenPages.has(start.page)) return false
+        seenPages.add(start.page)
+        return true
+      })
+  }
+
+  // Bookmark destinations are either named or explicit arrays whose first entry
+  // is a page reference; returns a 1-based page number
+  private async resolveOutlineDestination(dest: OutlineNode['dest']): Promise<number | null> {
+    if (!this.pdfDocument || !dest) return null
+
+    try {
+      const explicitDest = typeof dest === 'string'
+        ? await this.pdfDocument.getDestination(dest)
+        : dest
+
+      if (!explicitDest || explicitDest.length === 0) return null
+
+      const target = explicitDest[0]
+      if (typeof target === 'number') {
+        return target + 1
+      }
+
+      const pageIndex = await this.pdfDocument.getPageIndex(target)
+      return pageIndex + 1
+    } catch (error) {
+      console.warn('Error resolving outline destination:', error)
+      return null
+    }
+  }
+
+  private async findChaptersFromContentsPage(totalPages: number): Promise<ChapterStart[]> {
+    const searchLimit = Math.min(totalPages, CONTENTS_SEARCH_PAGE_LIMIT)
+    let entries: Array<{ title: string; printedPage: number }> = []
+    let lastContentsPage = 0
+
+    for (let pageNum = 1; pageNum <= searchLimit; pageNum++) {
+      this.reportProgress('Looking for a contents page', pageNum)
       try {
-        const { text } = await this.extractTextFromPage(pageNum)
-        const lines = text.split('\n').map(line => line.trim())
-
-        for (const line of lines) {
-          for (const pattern of chapterPatterns) {
-            if (pattern.test(line)) {
-              chapterPages.push(pageNum)
-              break
-            }
+        const lines = await this.extractLinesFromPage(pageNum)
+        const pageEntries = this.parseContentsEntries(lines)
+        const hasHeading = lines.slice(0, 5).some(line => CONTENTS_HEADING_PATTERN.test(line))
+
+        if (entries.length === 0) {
+          if (pageEntries.length >= MIN_CONTENTS_ENTRIES && (hasHeading || pageEntries.length >= MIN_CONTENTS_ENTRIES * 2)) {
+            entries = pageEntries
+            lastContentsPage = pageNum
           }
+        } else if (pageEntries.length >= MIN_CONTENTS_ENTRIES) {
+          // Contents often continue onto the following page
+          entries.push(...pageEntries)
+          lastContentsPage = pageNum
+        } else {
+          break
         }
       } catch (error) {
         console.warn(`Error processing page ${pageNum}:`, error)
       }
     }
 
-    return this.deduplicateChapterPages(chapterPages)
+    if (entries.length < MIN_CONTENTS_ENTRIES) return []
+
+    const offset = await this.findContentsPageOffset(entries, lastContentsPage, totalPages)
+    if (offset === null) return []
+
+    const chapterStarts: ChapterStart[] = []
+    for (const entry of entries) {
+      const page = entry.printedPage + offset
+      const previous = chapterStarts[chapterStarts.length - 1]
+
+      // Printed numbers must map into the body and keep increasing
+      if (page <= lastContentsPage || page > totalPages) continue
+      if (previous && page <= previous.page) continue
+
+      chapterStarts.push({ page, title: entry.title })
+    }
+
+    return chapterStarts.length >= MIN_CONTENTS_ENTRIES ? chapterStarts : []
   }
 
-  private async findChaptersByFontSize(totalPages: number): Promise<number[]> {
-    const chapterPages: number[] = []
-    const fontSizeData: { page: number; maxFontSize: number; avgFontSize: number }[] = []
+  private parseContentsEntries(lines: string[]): Array<{ title: string; printedPage: number }> {
+    const entries: Array<{ title: string; printedPage: number }> = []
+
+    for (const line of lines) {
+      const match = line.match(CONTENTS_ENTRY_PATTERN)
+      if (!match) continue
+
+      const title = (match[1] || match[3]).trim()
+      const printedPage = parseInt(match[2] || match[4], 10)
+
+      // Skip stray numbers and prose lines that happen to end in a digit
+      if (title.length < 2 || title.length > 100 || /^\d+$/.test(title)) continue
+
+      entries.push({ title, printedPage })
+    }
+
+    // A real contents list has ascending page numbers
+    const ascending = entries.filter((entry, index) => index === 0 || entry.printedPage >= entries[index - 1].printedPage)
+    return ascending.length >= entries.length * 0.8 ? ascending : []
+  }
+
+  // Printed page numbers rarely equal PDF page indices. Prefer the PDF's page
+  // labels; otherwise find the first contents title printed at the top of a
+  // body page and measure the difference.
+  private async findContentsPageOffset(
+    entries: Array<{ title: string; printedPage: number }>,
+    lastContentsPage: number,
+    totalPages: number
+  ): Promise<number | null> {
+    const pageLabels = await this.getPageLabels()
+    if (pageLabels) {
+      for (const entry of entries) {
+        const pageIndex = pageLabels.indexOf(String(entry.printedPage))
+        if (pageIndex !== -1) {
+          return pageIndex + 1 - entry.printedPage
+        }
+      }
+    }
+
+    const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+    const candidates = entries
+      .slice(0, MIN_CONTENTS_ENTRIES)
+      .map(entry => ({ ...entry, normalizedTitle: normalize(entry.title) }))
+      .filter(entry => entry.normalizedTitle.length >= 3)
+
+    if (candidates.length === 0) return null
+
+    // Single pass over the body: the first page headed by any early title wins
+    for (let pageNum = lastContentsPage + 1; pageNum <= totalPages; pageNum++) {
+      this.reportProgress('Matching contents entries to pages', pageNum)
+      try {
+        const topLines = (await this.extractLinesFromPage(pageNum)).slice(0, 6).map(normalize)
+        const match = candidates.find(entry => topLines.some(line => line.includes(entry.normalizedTitle)))
+        if (match) {
+          return pageNum - match.printedPage
+        }
+      } catch (error) {
+        console.warn(`Error processing page ${pageNum}:`, error)
+      }
+    }
+
+    return null
+  }
+
+  private async findExplicitChapterMarkers(totalPages: number): Promise<CandidateSignal[]> {
+    const signals: CandidateSignal[] = []
+
+    for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+      this.reportProgress('Looking for chapter headings', pageNum)
+      try {
+        const signal = await this.findMarkerSignal(pageNum)
+        if (signal) signals.push(signal)
+      } catch (error) {
+        console.warn(`Error processing page ${pageNum}:`, error)
+      }
+    }
+
+    return signals
+  }
+
+  // The most convincing heading line near the top of a page
+  private async findMarkerSignal(pageNumber: number): Promise<CandidateSignal | null> {
+    const layout = await this.getLayout(pageNumber)
+    // Running heads repeat on every page, so only look past them
+    const topLines = (await this.getCleanLines(pageNumber, layout.lines)).slice(0, HEADING_LINE_COUNT)
+    let best: CandidateSignal | null = null
+
+    for (const { text } of topLines) {
+      for (const { pattern, confidence } of CHAPTER_MARKER_PATTERNS) {
+        if (pattern.test(text) && (!best || confidence > best.confidence)) {
+          best = { page: pageNumber, line: text, strategy: 'chapter-markers', confidence }
+        }
+      }
+    }
+
+    return best
+  }
+
+  private async findChaptersByFontSize(totalPages: number): Promise<CandidateSignal[]> {
+    const fontSizeData: { page: number; maxFontSize: number; avgFontSize: number; headingLine: string }[] = []
 
     // Collect font size data for all pages
     for (let pageNum = 1; pageNum <= totalPages; pageNum++) {
+      this.reportProgress('Comparing heading sizes', pageNum)
       try {
-        const { fontSize } = await this.extractTextFromPage(pageNum)
+        const layout = await this.getLayout(pageNum)
+        const fontSize = layout.fontSizes
         if (fontSize.length > 0) {
           const maxFontSize = Math.max(...fontSize)
           const avgFontSize = fontSize.reduce((sum, size) => sum + size, 0) / fontSize.length
-          fontSizeData.push({ page: pageNum, maxFontSize, avgFontSize })
+          fontSizeData.push({ page: pageNum, maxFontSize, avgFontSize, headingLine: this.getLargestLine(layout) })
         }
       } catch (error) {
         console.warn(`Error processing page ${pageNum}:`, error)
@@ -129,13 +693,68 @@ export class PDFProcessor {
     const avgMaxFontSize = fontSizeData.reduce((sum, data) => sum + data.maxFontSize, 0) / fontSizeData.length
     const fontSizeThreshold = avgMaxFontSize * 1.2 // 20% larger than average
 
-    fontSizeData.forEach(data => {
-      if (data.maxFontSize > fontSizeThreshold) {
-        chapterPages.push(data.page)
-      }
-    })
+    return fontSizeData
+      .filter(data => data.maxFontSize > fontSizeThreshold)
+      .map(data => ({
+        page: data.page,
+        line: data.headingLine,
+        strategy: 'font-size',
+        confidence: getFontSizeConfidence(data.maxFontSize / avgMaxFontSize)
+      }))
+  }
+
+  // Font size evidence from a single page: its largest line against its own body text
+  private findPageFontSizeSignal(pageNumber: number, layout: PageTextLayout): CandidateSignal | null {
+    if (layout.lines.length < 3) return null
+
+    const heights = layout.lines.map(line => line.height).sort((a, b) => a - b)
+    const ratio = heights[heights.length - 1] / heights[Math.floor(heights.length / 2)]
+    const confidence = getFontSizeConfidence(ratio)
+
+    return confidence > 0
+      ? { page: pageNumber, line: this.getLargestLine(layout), strategy: 'font-size', confidence }
+      : null
+  }
 
-    return this.deduplicateChapterPages(chapterPages)
+  private getLargestLine(layout: PageTextLayout): string {
+    return layout.lines.reduce<PageTextLine | null>(
+      (largest, line) => !largest || line.height > largest.height ? line : largest,
+      null
+    )?.text || ''
+  }
+
+  private toSignal(start: ChapterStart, strategy: CandidateSignal['strategy'], confidence: number): CandidateSignal {
+    return { page: start.page, line: start.title || '', strategy, confidence }
+  }
+
+  // One candidate per page. Independent signals that agree make a page more
+  // likely, so their confidences combine rather than simply taking the best.
+  private async buildCandidates(signals: CandidateSignal[]): Promise<ChapterCandidate[]> {
+    const signalsByPage = new Map<number, CandidateSignal[]>()
+    for (const signal of signals) {
+      signalsByPage.set(signal.page, [...(signalsByPage.get(signal.page) || []), signal])
+    }
+
+    const candidates: ChapterCandidate[] = []
+    for (const [page, pageSignals] of [...signalsByPage.entries()].sort((a, b) => a[0] - b[0])) {
+      const confidence = 1 - pageSignals.reduce((doubt, signal) => doubt * (1 - signal.confidence), 1)
+      if (confidence < MIN_CANDIDATE_CONFIDENCE) continue
+
+      const strongest = pageSignals.reduce((best, signal) => signal.confidence > best.confidence ? signal : best)
+      candidates.push({ ...strongest, confidence, snippet: await this.getPageSnippet(page) })
+    }
+
+    return candidates
+  }
+
+  private async getPageSnippet(pageNumber: number): Promise<string> {
+    try {
+      const text = (await this.extractCleanPageText(pageNumber)).replace(/\s+/g, ' ')
+      return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH).trimEnd()}…` : text
+    } catch (error) {
+      console.warn(`Error reading page ${pageNumber}:`, error)
+      return ''
+    }
   }
 
   private deduplicateChapterPages(pages: number[]): number[] {
@@ -152,26 +771,35 @@ export class PDFProcessor {
     return filteredPages
   }
 
-  private createChapterBoundaries(chapterPages: number[], totalPages: number): ChapterBoundary[] {
-    const boundaries: ChapterBoundary[] = []
-    
-    // Ensure we start from page 1
-    if (chapterPages[0] !== 1) {
-      chapterPages.unshift(1)
-    }
-
-    for (let i = 0; i < chapterPages.length; i++) {
-      const startPage = chapterPages[i]
-      const endPage = i < chapterPages.length - 1 ? chapterPages[i + 1] - 1 : totalPages
-      
-      boundaries.push({
-        chapter: i + 1,
-        startPage,
-        endPage
-      })
+  private reportProgress(stage: string, page: number): void {
+    this.onProgress?.({ stage, page, totalPages: this.getTotalPages() })
+  }
+
+  private async getLayout(pageNumber: number): Promise<PageTextLayout> {
+    if (!this.pdfDocument) {
+      throw new Error('PDF not loaded')
     }
 
-    return boundaries
+    let layout = this.layoutCache.get(pageNumber)
+    if (!layout) {
+      layout = this.ocrLayouts.get(pageNumber) || await getPageTextLayout(await this.pdfDocument.getPage(pageNumber))
+      this.layoutCache.set(pageNumber, layout)
+    }
+
+    return layout
+  }
+
+  private async getCleanLines(pageNumber: number, lines: PageTextLine[]): Promise<CleanLine[]> {
+    const totalPages = this.getTotalPages()
+    const neighbours: PageTextLayout[] = []
+
+    for (let neighbour = pageNumber - RUNNING_LINE_WINDOW; neighbour <= pageNumber + RUNNING_LINE_WINDOW; neighbour++) {
+      if (neighbour !== pageNumber && neighbour >= 1 && neighbour <= totalPages) {
+        neighbours.push(await this.getLayout(neighbour))
+      }
+    }
+
+    return cleanPageLines(await this.getLayout(pageNumber), lines, neighbours)
   }
 
   getTotalPages(): number {
@@ -179,9 +807,16 @@ export class PDFProcessor {
   }
 
   cleanup(): void {
+    this.layoutCache.clear()
+    this.ocrLayouts.clear()
     if (this.pdfDocument) {
       this.pdfDocument.destroy()
       this.pdfDocument = null
     }
   }
-}
\ No newline at end of file
+}
+
+// A line 20% larger than usual is a weak hint; 60% larger is as sure as type size gets
+function getFontSizeConfidence(ratio: number): number {
+  return ratio > 1.2 ? Math.min(0.7, 0.3 + (ratio - 1.2)) : 0
+}
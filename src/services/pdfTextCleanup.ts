@@ -0,0 +1,127 @@
+import { PageTextItem, PageTextLayout, PageTextLine } from './pdfProcessor'
+
+// A text line that survived cleanup, with the position needed to rebuild paragraphs
+export interface CleanLine {
+  text: string
+  x: number
+  y: number
+  height: number
+}
+
+// Running heads and folios sit in the outer band of the page, in its first or last lines
+const MARGIN_FRACTION = 0.1
+const MARGIN_LINE_COUNT = 2
+
+// Pages either side compared when looking for repeated lines
+export const RUNNING_LINE_WINDOW = 2
+
+// Bare page numbers: "37", "- 37 -", or lower-case roman numerals in the front matter
+const FOLIO_PATTERN = /^[-–—\s]*([0-9]{1,4}|[ivxlcdm]{1,7})[-–—\s]*$/
+const FOOTNOTE_MARKER_PATTERN = /^([0-9]{1,3}|[*†‡§¶]+)$/
+const SUPERSCRIPT_HEIGHT_RATIO = 0.75
+
+export function joinItemText(items: PageTextItem[]): string {
+  return items
+    .map(item => item.str)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Drop running heads, folios and footnote markers from the given lines of a page.
+// Neighbouring pages are needed to tell a running head from a heading.
+export function cleanPageLines(
+  layout: PageTextLayout,
+  lines: PageTextLine[],
+  neighbours: PageTextLayout[]
+): CleanLine[] {
+  const neighbourHeads = new Set(
+    neighbours.flatMap(neighbour => getMarginLines(neighbour).map(line => normalizeRunningLine(line.text)))
+  )
+  const marginLines = getMarginLines(layout)
+  const bodyHeight = median(layout.lines.map(line => line.height))
+  const cleanLines: CleanLine[] = []
+
+  for (const line of lines) {
+    if (marginLines.includes(line) &&
+      (FOLIO_PATTERN.test(line.text) || neighbourHeads.has(normalizeRunningLine(line.text)))) {
+      continue
+    }
+
+    // Footnote markers are set smaller than the body text
+    const text = joinItemText(line.items.filter(item =>
+      !(item.height < bodyHeight * SUPERSCRIPT_HEIGHT_RATIO && FOOTNOTE_MARKER_PATTERN.test(item.str.trim()))
+    ))
+
+    if (text) {
+      cleanLines.push({ text, x: line.x, y: line.y, height: line.height })
+    }
+  }
+
+  return cleanLines
+}
+
+// Rejoin lines into paragraphs. A paragraph ends at a gap wider than the usual
+// line spacing or before an indented line, and words hyphenated across a line
+// break are joined back together. Pages follow on from each other, so a paragraph
+// only breaks at a page boundary when the next page opens with an indent.
+export function buildParagraphs(pages: CleanLine[][]): string[] {
+  const paragraphs: string[] = []
+  let paragraph = ''
+
+  const endParagraph = () => {
+    if (paragraph) paragraphs.push(paragraph)
+    paragraph = ''
+  }
+
+  for (const lines of pages) {
+    if (lines.length === 0) continue
+
+    const leftEdge = Math.min(...lines.map(line => line.x))
+    const lineSpacing = median(lines.slice(1).map((line, index) => lines[index].y - line.y))
+
+    lines.forEach((line, index) => {
+      const indented = line.x > leftEdge + line.height * 0.8
+      const gap = index > 0 ? lines[index - 1].y - line.y : 0
+      const widerGap = index > 0 && lineSpacing > 0 && gap > lineSpacing * 1.5
+
+      if (indented || widerGap) {
+        endParagraph()
+      }
+
+      if (/[A-Za-z]-$/.test(paragraph) && /^[a-z]/.test(line.text)) {
+        paragraph = paragraph.slice(0, -1) + line.text
+      } else {
+        paragraph = paragraph ? `${paragraph} ${line.text}` : line.text
+      }
+    })
+  }
+
+  endParagraph()
+  return paragraphs
+}
+
+function getMarginLines(layout: PageTextLayout): PageTextLine[] {
+  const marginHeight = layout.pageHeight * MARGIN_FRACTION
+  const pageTop = layout.pageBottom + layout.pageHeight
+  const candidates = new Set([
+    ...layout.lines.slice(0, MARGIN_LINE_COUNT),
+    ...layout.lines.slice(-MARGIN_LINE_COUNT)
+  ])
+
+  return [...candidates].filter(line =>
+    line.y >= pageTop - marginHeight || line.y <= layout.pageBottom + marginHeight
+  )
+}
+
+// Page numbers change from page to page ("THE NAME OF THE WIND 37"), so compare without them
+function normalizeRunningLine(text: string): string {
+  return text.toLowerCase().replace(/[0-9]+/g, '#').replace(/\s+/g, ' ').trim()
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
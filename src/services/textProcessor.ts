@@ -0,0 +1,211 @@
+import { ChapterBoundary, ChapterDetectionResult } from '../types'
+import { ChapterStart, clipLocationText, createChapterBoundaries } from '../utils/chapterBoundaries'
+
+interface TextPage {
+  lines: string[]
+  heading?: string
+  headings: string[]
+}
+
+// Plain text has no pages, so we cut it into synthetic ones: a new page starts at
+// every heading (or separator) and otherwise after roughly this many characters
+const PAGE_CHARACTER_LIMIT = 3000
+const MAX_HEADING_LENGTH = 80
+
+const NUMBER_WORDS = 'one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty'
+
+const HEADING_PATTERNS = [
+  new RegExp(`^(chapter|book|part)\\s+([0-9]+|[ivxlcdm]+|${NUMBER_WORDS})\\b`, 'i'),
+  /^(prologue|epilogue|interlude|introduction|afterword)\b/i
+]
+
+const MARKDOWN_HEADING_PATTERN = /^#{1,2}\s+\S/
+const SEPARATOR_PATTERN = /^\s*((\*\s*){3,}|(-\s*){3,}|(_\s*){3,}|(=\s*){3,}|(~\s*){3,}|#)\s*$/
+
+// Project Gutenberg licence boilerplate around the actual book
+const GUTENBERG_START_PATTERN = /^\*\*\*\s*START OF (THE|THIS) PROJECT GUTENBERG/i
+const GUTENBERG_END_PATTERN = /^\*\*\*\s*END OF (THE|THIS) PROJECT GUTENBERG/i
+
+export class TextProcessor {
+  private pages: TextPage[] = []
+  private breaksAreHeadings = true
+
+  async loadText(file: File, isMarkdown: boolean): Promise<void> {
+    const rawText = await file.text()
+    const lines = this.stripBoilerplate(rawText.replace(/\r\n?/g, '\n').split('\n'))
+
+    const headingLines = this.findHeadingLines(lines, isMarkdown)
+    this.breaksAreHeadings = headingLines.size > 0
+    const breakLines = this.breaksAreHeadings ? headingLines : this.findSeparatorLines(lines)
+
+    this.pages = this.paginate(lines, breakLines, this.breaksAreHeadings, isMarkdown)
+
+    if (this.pages.length === 0) {
+      throw new Error('Text file contains no readable text')
+    }
+  }
+
+  async extractTextFromSection(sectionNumber: number): Promise<string> {
+    const page = this.pages[sectionNumber - 1]
+    if (!page) {
+      throw new Error(`Page ${sectionNumber} does not exist`)
+    }
+
+    return page.lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()
+  }
+
+  async extractChapterText(chapterBoundary: ChapterBoundary): Promise<string> {
+    let chapterText = ''
+
+    for (let page = chapterBoundary.startPage; page <= chapterBoundary.endPage; page++) {
+      chapterText += clipLocationText(await this.extractTextFromSection(page), page, chapterBoundary) + '\n'
+    }
+
+    return chapterText
+  }
+
+  async detectChapters(): Promise<ChapterDetectionResult> {
+    const chapterStarts: ChapterStart[] = []
+    this.pages.forEach((page, index) => {
+      if (page.heading !== undefined) {
+        chapterStarts.push({ page: index + 1, title: page.heading || undefined })
+      }
+    })
+
+    if (chapterStarts.length > 0) {
+      return {
+        chapterBoundaries: createChapterBoundaries(chapterStarts, this.pages.length),
+        strategy: this.breaksAreHeadings ? 'headings' : 'separators'
+      }
+    }
+
+    return {
+      chapterBoundaries: [{
+        chapter: 1,
+        startPage: 1,
+        endPage: this.pages.length
+      }],
+      strategy: 'single-chapter'
+    }
+  }
+
+  getSectionTitle(sectionNumber: number): string | undefined {
+    return this.pages[sectionNumber - 1]?.heading || undefined
+  }
+
+  getTotalSections(): number {
+    return this.pages.length
+  }
+
+  cleanup(): void {
+    this.pages = []
+  }
+
+  private stripBoilerplate(lines: string[]): string[] {
+    const startIndex = lines.findIndex(line => GUTENBERG_START_PATTERN.test(line.trim()))
+    const endIndex = lines.findIndex(line => GUTENBERG_END_PATTERN.test(line.trim()))
+
+    return lines.slice(
+      startIndex === -1 ? 0 : startIndex + 1,
+      endIndex === -1 || endIndex <= startIndex ? lines.length : endIndex
+    )
+  }
+
+  private findHeadingLines(lines: string[], isMarkdown: boolean): Set<number> {
+    const headingLines = new Set<number>()
+
+    lines.forEach((line, index) => {
+      const trimmed = line.trim()
+      if (!trimmed || trimmed.length > MAX_HEADING_LENGTH) return
+
+      if (isMarkdown) {
+        const nextLine = lines[index + 1]?.trim() || ''
+        if (MARKDOWN_HEADING_PATTERN.test(trimmed) || /^=+$/.test(nextLine)) {
+          headingLines.add(index)
+        }
+        return
+      }
+
+      // A heading should stand on its own line, separated from the prose around it
+      const isolated = !lines[index - 1]?.trim() || !lines[index + 1]?.trim()
+      if (isolated && HEADING_PATTERNS.some(pattern => pattern.test(trimmed))) {
+        headingLines.add(index)
+      }
+    })
+
+    return headingLines
+  }
+
+  private findSeparatorLines(lines: string[]): Set<number> {
+    const separatorLines = new Set<number>()
+
+    lines.forEach((line, index) => {
+      if (line.trim() && SEPARATOR_PATTERN.test(line)) {
+        separatorLines.add(index)
+      }
+    })
+
+    return separatorLines
+  }
+
+  private paginate(lines: string[], breakLines: Set<number>, breaksAreHeadings: boolean, isMarkdown: boolean): TextPage[] {
+    const pages: TextPage[] = []
+    let current: TextPage = { lines: [], headings: [] }
+    let currentLength = 0
+    let hasBody = false
+
+    const flush = () => {
+      if (current.lines.some(line => line.trim())) {
+        pages.push(current)
+      }
+      current = { lines: [], headings: [] }
+      currentLength = 0
+      hasBody = false
+    }
+
+    lines.forEach((line, index) => {
+      const trimmed = line.trim()
+
+      if (breakLines.has(index)) {
+        const heading = isMarkdown ? trimmed.replace(/^#+\s*/, '') : trimmed
+
+        // Consecutive headings with no prose between them ("BOOK ONE" directly above
+        // "CHAPTER I") stay together on one page, unless a heading repeats, which
+        // means we just walked off the end of a contents list into the text itself
+        if (hasBody || current.heading === undefined || current.headings.includes(heading)) {
+          flush()
+        }
+
+        if (breaksAreHeadings) {
+          if (current.heading === undefined) {
+            current.heading = heading
+          }
+          current.headings.push(heading)
+          current.lines.push(heading)
+          currentLength += heading.length
+        } else if (current.heading === undefined) {
+          // Separator breaks carry no title, but still mark a chapter start
+          current.heading = ''
+        }
+        return
+      }
+
+      // Setext underline belonging to the heading above
+      if (isMarkdown && breakLines.has(index - 1) && /^=+$/.test(trimmed)) {
+        return
+      }
+
+      if (!trimmed && currentLength >= PAGE_CHARACTER_LIMIT) {
+        flush()
+        return
+      }
+
+      current.lines.push(line)
+      currentLength += line.length
+      if (trimmed) hasBody = true
+    })
+
+    flush()
+    return pages
+  }
+}
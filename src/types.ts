@@ -1,19 +1,114 @@
+import type { PageTextLayout } from './services/pdfProcessor'
+
+export type BookFormat = 'pdf' | 'epub' | 'text' | 'markdown'
+
 export interface Book {
   id: string
   title: string
   author: string
   fileName: string
-  pdfBlob: Blob
+  format: BookFormat
+  sourceBlob: Blob
   totalChapters: number
   currentChapter: number
   chapterBoundaries: ChapterBoundary[]
   uploadDate: string
+  contentHash?: string // SHA-256 of sourceBlob; older books get it on first use
+  staleChapters?: number[] // Analyzed chapters whose boundaries changed since, so their analysis should be re-run
 }
 
+// Non-story sections around the body of a book: title and copyright pages,
+// contents, dedication, acknowledgements, "About the Author" and so on
+export type BookMatter = 'front' | 'back'
+
+// Locations are 1-based: PDF pages, spine documents for EPUB, or synthetic
+// heading-aligned pages for plain text and Markdown
 export interface ChapterBoundary {
   chapter: number
   startPage: number
   endPage: number
+  title?: string
+  part?: string // Enclosing grouping, e.g. "Part One", taken from the outline
+  unnumbered?: boolean // Prologue, epilogue, interlude etc. - skipped by "Chapter N" numbering
+  matter?: BookMatter // Front or back matter - not numbered and never analyzed
+  startOffset?: number // Character offset into the start location's text where the chapter begins
+  endOffset?: number // Character offset into the end location's text where the chapter stops
+}
+
+// Which method produced a book's initial chapter boundaries
+export type ChapterDetectionStrategy =
+  | 'outline'          // PDF bookmarks
+  | 'contents-page'    // Printed table of contents in the PDF
+  | 'chapter-markers'  // "Chapter 12" style lines in page text
+  | 'font-size'        // Pages with unusually large type
+  | 'epub-toc'         // EPUB nav document or NCX
+  | 'spine'            // One chapter per EPUB spine document
+  | 'headings'         // Text/Markdown headings
+  | 'separators'       // Text/Markdown separator lines
+  | 'single-chapter'   // Nothing found
+
+// A possible chapter start, listed in the boundary editor for review
+export interface ChapterCandidate {
+  page: number
+  line: string // The heading or bookmark text that matched
+  snippet: string // Opening text of the page
+  strategy: ChapterDetectionStrategy // Strongest signal when several strategies agree
+  confidence: number // 0-1
+}
+
+export interface ChapterDetectionResult {
+  chapterBoundaries: ChapterBoundary[]
+  strategy: ChapterDetectionStrategy
+  candidates?: ChapterCandidate[] // Likely chapter starts from the strategies that ran
+}
+
+// Progress reported while a book file is scanned
+export interface IngestionProgress {
+  stage: string
+  page: number
+  totalPages: number
+}
+
+// Everything the text store keeps for a book, extracted in one pass over the file
+export interface ExtractedBookText {
+  pages: Array<{ page: number; rawText: string; text: string }>
+  chapters: Array<{ chapter: number; rawText: string; text: string }>
+}
+
+export interface IngestionOptions {
+  onProgress?: (progress: IngestionProgress) => void
+  signal?: AbortSignal
+}
+
+// Cached text of one source location (PDF page, EPUB spine document, text page)
+export interface PageText {
+  id: string // `${bookId}:${page}`
+  bookId: string
+  contentHash: string
+  page: number
+  rawText: string
+  text: string // Cleaned, as sent for analysis
+}
+
+// Cached text of one chapter, valid while its boundary and the source are unchanged
+export interface ChapterText {
+  id: string // `${bookId}:${chapter}`
+  bookId: string
+  contentHash: string
+  chapter: number
+  boundaryKey: string
+  rawText: string
+  text: string
+}
+
+// OCR result for a scanned PDF page. Keyed by file content rather than book,
+// since OCR runs during upload before the book is saved.
+export interface OcrPage {
+  id: string // `${contentHash}:${page}`
+  contentHash: string
+  page: number
+  layout: PageTextLayout // In PDF coordinates, so it stands in for the missing text layer
+  confidence: number // 0-100, as reported by the OCR engine
 }
 
 export interface Character {
@@ -32,13 +127,64 @@ export interface Character {
   chapterHistory: ChapterHistory[]
   mentionCount: number
   aliases?: string[]
+  attributeHistory?: CharacterAttributeHistory // Dated values behind the fields above; the fields hold the latest
+  mentionedInChapters?: number[]
 }
 
+// A value as it stood from a chapter on, until a later entry replaces it
+export interface AttributeEntry<T> {
+  chapter: number
+  value: T
+}
+
+export type VersionedCharacterField = 'name' | 'occupation' | 'age' | 'location' | 'status' | 'relevance' | 'briefDescription'
+
+// Every value a character's fields have had, oldest chapter first
+export interface CharacterAttributeHistory {
+  name?: AttributeEntry<string>[]
+  occupation?: AttributeEntry<string>[]
+  age?: AttributeEntry<string>[]
+  location?: AttributeEntry<string>[]
+  status?: AttributeEntry<Character['status']>[]
+  relevance?: AttributeEntry<Character['relevance']>[] // As judged in each chapter; the highest so far applies
+  briefDescription?: AttributeEntry<string>[]
+  aliases?: AttributeEntry<string>[] // Each alias with the chapter it was first used in
+}
+
+// One per target character. The plain fields give the latest state.
 export interface Relationship {
   targetCharacterId: string
   type: 'family' | 'romantic' | 'conflict' | 'professional' | 'friendship' | 'other'
   description: string
   establishedInChapter: number
+  kind?: RelationKind
+  ended?: boolean
+  history?: RelationshipState[] // Oldest first; see utils/relationshipStates
+}
+
+// Relations with a direction, each paired with its inverse in
+// utils/relationKinds, e.g. parent-of and child-of. Symmetric kinds such as
+// sibling-of are their own inverse.
+export type RelationKind =
+  | 'parent-of' | 'child-of'
+  | 'sibling-of'
+  | 'spouse-of'
+  | 'partner-of'
+  | 'mentor-of' | 'student-of'
+  | 'employer-of' | 'employee-of'
+  | 'colleague-of'
+  | 'friend-of'
+  | 'enemy-of'
+  | 'killed' | 'killed-by'
+
+// How a relationship stood from a chapter on, e.g. friends who later become
+// enemies have a friendship state and then a conflict state
+export interface RelationshipState {
+  chapter: number
+  type: Relationship['type']
+  kind?: RelationKind // Absent for relationships no kind fits
+  description: string
+  ended?: boolean // Over from this chapter: a broken engagement, a lost friendship
 }
 
 export interface ChapterHistory {
@@ -50,6 +196,95 @@ export interface Settings {
   id: string
   currentBookId?: string
   theme: 'light' | 'dark'
+  llm?: LlmSettings
+}
+
+// Which backend runs character extraction
+export type LlmProviderType =
+  | 'gemini'            // Google Gemini API
+  | 'openai-compatible' // Any chat-completions endpoint (OpenAI, LM Studio, vLLM, llama.cpp server...)
+  | 'ollama'            // Ollama's native API on a local server
+  | 'fake'              // Canned responses, for testing without a network
+
+export interface LlmSettings {
+  provider: LlmProviderType
+  model: string
+  baseUrl?: string // Ignored by Gemini and the fake provider
+}
+
+// AES-GCM ciphertext of an API key, with the key derived from the user's
+// passphrase by PBKDF2. All fields are base64.
+export interface EncryptedSecret {
+  ciphertext: string
+  iv: string
+  salt: string
+}
+
+// A user's own API key for one provider. Stored either as plain text or
+// encrypted; the passphrase is never stored.
+export interface ApiCredential {
+  id: LlmProviderType
+  apiKey?: string
+  encrypted?: EncryptedSecret
+  updatedAt: string
+}
+
+export type ApiKeyStatus =
+  | 'not-needed' // Provider works without a key
+  | 'missing'    // Provider needs a key and none is saved
+  | 'locked'     // Key is encrypted and the passphrase has not been entered this session
+  | 'ready'
+
+export type RevertibleCharacterField =
+  'name' | 'occupation' | 'age' | 'location' | 'status' | 'relevance' | 'briefDescription' | 'firstAppearance' | 'lastMentioned'
+
+// What one analysis run did to one character, enough to take it back out
+// without disturbing what other chapters added since
+export interface CharacterChange {
+  characterId: string
+  created: boolean
+  fields: Array<{
+    field: RevertibleCharacterField
+    before: string | number | undefined
+    after: string | number | undefined
+  }>
+  aliasesAdded: string[]
+  relationshipsAdded: Array<{ targetCharacterId: string; type: Relationship['type'] }>
+  historyAdded: boolean // Whether the run wrote the chapter's history entry
+  mentionDelta: number
+}
+
+// One analysis of one chapter. Re-analysis and rollback undo the chapter's
+// runs; a chapter counts as analyzed while it has one.
+export interface AnalysisRun {
+  id: string
+  bookId: string
+  chapter: number
+  provider?: LlmProviderType // Unknown for legacy runs
+  model?: string
+  promptVersion: number // 0 for legacy runs
+  createdAt: string
+  rawResponses: string[] // Every model reply, including ones that needed repair
+  changes: CharacterChange[]
+  legacy?: boolean // Analyzed before runs were recorded, so the changes are unknown
+}
+
+export type ChapterJobState = 'queued' | 'running' | 'done' | 'failed'
+
+// A batch of chapters analyzed one after another. One job per book, keyed by
+// the book's id, stored so that a reload picks up where it stopped.
+export interface AnalysisJob {
+  id: string // Same as bookId
+  bookId: string
+  status: 'queued' | 'running' | 'paused' | 'finished'
+  chapters: Array<{
+    chapter: number
+    state: ChapterJobState
+    error?: string
+  }>
+  error?: string // Why the job paused itself, e.g. a locked API key
+  createdAt: string
+  updatedAt: string
 }
 
 export interface CharacterNode extends d3.SimulationNodeDatum {
@@ -87,6 +322,8 @@ export interface Chapter {
 
 export interface ExtractedCharacterData {
   name: string
+  matchesExistingId?: string // Roster character the model says this is
+  aliases?: string[] // Other names used for the character in this chapter
   occupation?: string
   age?: string
   location?: string
@@ -96,6 +333,8 @@ export interface ExtractedCharacterData {
   relationships: Array<{
     targetName: string
     type: 'family' | 'romantic' | 'conflict' | 'professional' | 'friendship' | 'other'
+    kind?: RelationKind
     description: string
+    ended?: boolean
   }>
 }
\ No newline at end of file
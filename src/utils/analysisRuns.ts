@@ -0,0 +1,187 @@
+import { AnalysisRun, Character, CharacterChange, RevertibleCharacterField } from '../types'
+import { ChapterMapping, remapChapter } from './chapterMapping'
+import { isVersionedField, removeChapterAttributes } from './characterProjection'
+import { getRelationshipStates, removeRelationshipStates } from './relationshipStates'
+
+const REVERTIBLE_FIELDS: RevertibleCharacterField[] = [
+  'name', 'occupation', 'age', 'location', 'status', 'relevance', 'briefDescription', 'firstAppearance', 'lastMentioned'
+]
+
+export function diffCharacter(before: Character | undefined, after: Character): CharacterChange {
+  return {
+    characterId: after.id,
+    created: !before,
+    fields: before
+      ? REVERTIBLE_FIELDS
+        .filter(field => before[field] !== after[field])
+        .map(field => ({ field, before: before[field], after: after[field] }))
+      : [],
+    aliasesAdded: (after.aliases || []).filter(alias => !before?.aliases?.includes(alias)),
+    relationshipsAdded: after.relationships
+      .filter(relationship => !before?.relationships.some(existing =>
+        existing.targetCharacterId === relationship.targetCharacterId && existing.type === relationship.type
+      ))
+      .map(relationship => ({ targetCharacterId: relationship.targetCharacterId, type: relationship.type })),
+    historyAdded: after.chapterHistory.length > (before?.chapterHistory.length ?? 0),
+    mentionDelta: after.mentionCount - (before?.mentionCount ?? 0)
+  }
+}
+
+// Take a run's changes back out of a book's characters, keyed by id. Dated
+// values go with their chapter; other values a later chapter has since
+// overwritten are left alone. Characters the run
+// created are removed once nothing else refers to them. Returns the ids of
+// characters that were changed or removed.
+export function revertRun(characters: Map<string, Character>, run: AnalysisRun): Set<string> {
+  if (run.legacy) {
+    return revertLegacyChapter(characters, run.chapter)
+  }
+
+  const touched = new Set<string>()
+
+  for (const change of run.changes) {
+    const stored = characters.get(change.characterId)
+    if (!stored) continue // Merged away or deleted since
+
+    const character: Character = {
+      ...stored,
+      aliases: stored.aliases?.filter(alias => !change.aliasesAdded.includes(alias)),
+      relationships: removeRelationshipStates(stored.relationships, run.chapter),
+      chapterHistory: change.historyAdded
+        ? stored.chapterHistory.filter(history => history.chapter !== run.chapter)
+        : stored.chapterHistory,
+      mentionCount: Math.max(0, stored.mentionCount - change.mentionDelta)
+    }
+
+    for (const { field, before, after } of change.fields) {
+      if (isVersionedField(field) && character.attributeHistory?.[field]) continue
+      if (character[field] === after) {
+        Object.assign(character, { [field]: before })
+      }
+    }
+    removeChapterAttributes(character, run.chapter)
+
+    characters.set(character.id, character)
+    touched.add(character.id)
+
+    if (change.created) {
+      settleCreatedCharacter(characters, character, run.chapter, touched)
+    }
+  }
+
+  return touched
+}
+
+// A character first seen in the reverted chapter either goes, or, when later
+// chapters mention it too, now first appears in the earliest of those
+function settleCreatedCharacter(characters: Map<string, Character>, character: Character, chapter: number, touched: Set<string>): void {
+  if (character.mentionCount === 0 && character.chapterHistory.length === 0) {
+    removeCharacter(characters, character.id, touched)
+    return
+  }
+
+  if (character.firstAppearance === chapter) {
+    const remaining = character.chapterHistory.map(history => history.chapter)
+    const firstAppearance = remaining.length > 0 ? Math.min(...remaining) : character.lastMentioned
+    characters.set(character.id, {
+      ...character,
+      firstAppearance,
+      lastMentioned: Math.max(firstAppearance, character.lastMentioned)
+    })
+  }
+}
+
+// Runs from before changes were recorded: drop everything dated to the
+// chapter. Field values cannot be restored since their old values are unknown.
+function revertLegacyChapter(characters: Map<string, Character>, chapter: number): Set<string> {
+  const touched = new Set<string>()
+
+  for (const stored of [...characters.values()]) {
+    const hadHistory = stored.chapterHistory.some(history => history.chapter === chapter)
+    const hadRelationships = stored.relationships.some(relationship =>
+      getRelationshipStates(relationship).some(state => state.chapter === chapter)
+    )
+    if (!hadHistory && !hadRelationships && stored.firstAppearance !== chapter) continue
+
+    const chapterHistory = stored.chapterHistory.filter(history => history.chapter !== chapter)
+    const character: Character = {
+      ...stored,
+      chapterHistory,
+      relationships: removeRelationshipStates(stored.relationships, chapter),
+      mentionCount: hadHistory ? Math.max(0, stored.mentionCount - 1) : stored.mentionCount,
+      lastMentioned: stored.lastMentioned === chapter
+        ? Math.max(stored.firstAppearance, ...chapterHistory.map(history => history.chapter))
+        : stored.lastMentioned
+    }
+    removeChapterAttributes(character, chapter)
+    characters.set(character.id, character)
+    touched.add(character.id)
+
+    if (stored.firstAppearance === chapter) {
+      settleCreatedCharacter(characters, character, chapter, touched)
+    }
+  }
+
+  return touched
+}
+
+function removeCharacter(characters: Map<string, Character>, characterId: string, touched: Set<string>): void {
+  characters.delete(characterId)
+  touched.add(characterId)
+
+  for (const character of characters.values()) {
+    if (character.relationships.some(relationship => relationship.targetCharacterId === characterId)) {
+      characters.set(character.id, {
+        ...character,
+        relationships: character.relationships.filter(relationship => relationship.targetCharacterId !== characterId)
+      })
+      touched.add(character.id)
+    }
+  }
+}
+
+// After a merge, what runs did to the merged-away character was done to the
+// character it merged into, so rolling back a chapter takes it back out there
+export function redirectRunChanges(run: AnalysisRun, sourceCharacterId: string, targetCharacterId: string): AnalysisRun {
+  const redirect = (id: string) => id === sourceCharacterId ? targetCharacterId : id
+
+  return {
+    ...run,
+    changes: run.changes.map(change => {
+      const characterId = redirect(change.characterId)
+      return {
+        ...change,
+        characterId,
+        relationshipsAdded: change.relationshipsAdded
+          .map(relationship => ({ ...relationship, targetCharacterId: redirect(relationship.targetCharacterId) }))
+          .filter(relationship => relationship.targetCharacterId !== characterId)
+      }
+    })
+  }
+}
+
+// Runs follow their chapter across a boundary edit; runs for chapters that no
+// longer exist are dropped, as their characters' history was
+export function remapRuns(runs: AnalysisRun[], mapping: ChapterMapping, totalChapters: number): AnalysisRun[] {
+  return runs.flatMap(run => {
+    const chapter = mapping.get(run.chapter)
+    if (typeof chapter !== 'number') return []
+
+    return [{
+      ...run,
+      chapter,
+      changes: run.changes.map(change => ({
+        ...change,
+        fields: change.fields.map(fieldChange =>
+          fieldChange.field === 'firstAppearance' || fieldChange.field === 'lastMentioned'
+            ? {
+              ...fieldChange,
+              before: typeof fieldChange.before === 'number' ? remapChapter(fieldChange.before, mapping, totalChapters) : fieldChange.before,
+              after: typeof fieldChange.after === 'number' ? remapChapter(fieldChange.after, mapping, totalChapters) : fieldChange.after
+            }
+            : fieldChange
+        )
+      }))
+    }]
+  })
+}
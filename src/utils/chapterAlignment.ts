@@ -0,0 +1,127 @@
+import { ChapterMapping } from './chapterMapping'
+
+export interface AlignableChapter {
+  chapter: number
+  title?: string
+  text: string
+}
+
+export interface ChapterMatch {
+  oldChapter: number
+  newChapter: number | null
+  score: number // 0-1; 0 when unmatched
+}
+
+// Below this many words the text says too little to compare, so titles decide
+const MIN_COMPARABLE_WORDS = 50
+const MIN_MATCH_SCORE = 0.1
+const TITLE_BONUS = 0.1
+// Weaker matches share too little text to trust the old analysis on the new
+// chapter; a match on title alone (0.5) falls below this too
+const CONFIDENT_MATCH_SCORE = 0.6
+
+// Match the chapters of two editions of a book. Chapters keep their order
+// between editions, so this is a sequence alignment that maximises the total
+// similarity of matched pairs; chapters added or removed in between are skipped.
+export function alignChapters(oldChapters: AlignableChapter[], newChapters: AlignableChapter[]): ChapterMatch[] {
+  const oldShingles = oldChapters.map(chapter => getShingles(chapter.text))
+  const newShingles = newChapters.map(chapter => getShingles(chapter.text))
+  const scores = oldChapters.map((oldChapter, i) => newChapters.map((newChapter, j) =>
+    scoreChapterPair(oldChapter, newChapter, oldShingles[i], newShingles[j])
+  ))
+
+  // best[i][j]: highest total score aligning the first i old and j new chapters
+  const best = Array.from({ length: oldChapters.length + 1 }, () => new Array<number>(newChapters.length + 1).fill(0))
+  for (let i = 1; i <= oldChapters.length; i++) {
+    for (let j = 1; j <= newChapters.length; j++) {
+      const score = scores[i - 1][j - 1]
+      best[i][j] = Math.max(
+        best[i - 1][j],
+        best[i][j - 1],
+        score >= MIN_MATCH_SCORE ? best[i - 1][j - 1] + score : 0
+      )
+    }
+  }
+
+  const matches = new Map<number, ChapterMatch>()
+  let i = oldChapters.length
+  let j = newChapters.length
+  while (i > 0 && j > 0) {
+    const score = scores[i - 1][j - 1]
+    if (score >= MIN_MATCH_SCORE && best[i][j] === best[i - 1][j - 1] + score) {
+      matches.set(oldChapters[i - 1].chapter, { oldChapter: oldChapters[i - 1].chapter, newChapter: newChapters[j - 1].chapter, score })
+      i--
+      j--
+    } else if (best[i][j] === best[i - 1][j]) {
+      i--
+    } else {
+      j--
+    }
+  }
+
+  return oldChapters.map(chapter =>
+    matches.get(chapter.chapter) || { oldChapter: chapter.chapter, newChapter: null, score: 0 }
+  )
+}
+
+export function toChapterMapping(matches: ChapterMatch[]): ChapterMapping {
+  return new Map(matches.map(match => [match.oldChapter, match.newChapter]))
+}
+
+// New chapters whose analysis may not fit their text: weak matches and any
+// chapter picked by hand rather than taken from the suggestions
+export function getUncertainChapters(matches: ChapterMatch[], mapping: ChapterMapping): number[] {
+  const chapters = new Set<number>()
+  for (const match of matches) {
+    const chosen = mapping.get(match.oldChapter)
+    if (typeof chosen === 'number' && (chosen !== match.newChapter || match.score < CONFIDENT_MATCH_SCORE)) {
+      chapters.add(chosen)
+    }
+  }
+
+  return [...chapters].sort((a, b) => a - b)
+}
+
+function scoreChapterPair(
+  oldChapter: AlignableChapter,
+  newChapter: AlignableChapter,
+  oldShingles: Set<string>,
+  newShingles: Set<string>
+): number {
+  const titlesMatch = Boolean(oldChapter.title && newChapter.title) &&
+    normalizeTitle(oldChapter.title!) === normalizeTitle(newChapter.title!)
+
+  // Scanned pages and image-only chapters have no text to go on
+  if (oldShingles.size < MIN_COMPARABLE_WORDS || newShingles.size < MIN_COMPARABLE_WORDS) {
+    return titlesMatch ? 0.5 : 0
+  }
+
+  return Math.min(1, jaccard(oldShingles, newShingles) + (titlesMatch ? TITLE_BONUS : 0))
+}
+
+// Overlapping three-word runs. Single words are shared by every chapter of a
+// book; runs of three are specific to a passage yet survive OCR slips nearby.
+function getShingles(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || []
+  const shingles = new Set<string>()
+
+  for (let index = 0; index + 2 < words.length; index++) {
+    shingles.add(`${words[index]} ${words[index + 1]} ${words[index + 2]}`)
+  }
+
+  return shingles
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  const [smaller, larger] = a.size < b.size ? [a, b] : [b, a]
+  let shared = 0
+  for (const shingle of smaller) {
+    if (larger.has(shingle)) shared++
+  }
+
+  return shared / (a.size + b.size - shared)
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+}
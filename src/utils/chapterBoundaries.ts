@@ -0,0 +1,161 @@
+import { BookMatter, ChapterBoundary } from '../types'
+
+export interface ChapterStart {
+  page: number
+  title?: string
+  part?: string
+}
+
+// Sections that belong to the book but not to its "Chapter N" sequence
+const UNNUMBERED_TITLE_PATTERN = /^(prologue|epilogue|interlude|preface|foreword|introduction|afterword|coda)\b/i
+
+export function isUnnumberedTitle(title: string): boolean {
+  return UNNUMBERED_TITLE_PATTERN.test(title.trim())
+}
+
+// Headings of sections that are not part of the story. Several ("About the
+// Author", "Copyright") turn up at either end, so position decides which.
+const MATTER_TITLE_PATTERN = new RegExp('^(' + [
+  'contents', 'table of contents', 'copyright', 'dedication', 'epigraph', 'title page', 'half title',
+  'also by', 'books by', 'by the same author', 'praise for', 'about the authors?', 'acknowledge?ments',
+  'list of (illustrations|maps|characters)', 'maps?', 'cast of characters', 'dramatis personae',
+  'notes', 'endnotes', 'bibliography', 'index', 'glossary', 'appendix', 'reading group guide',
+  'discussion questions', 'a conversation with', 'credits', 'permissions', 'a note on the (type|author)'
+].join('|') + ')\\b', 'i')
+
+// Matter headings are short; longer lines starting with "Notes" or "Index" are prose
+const MAX_MATTER_TITLE_LENGTH = 40
+
+export function getMatterForTitle(title: string, location: number, totalLocations: number): BookMatter | null {
+  const trimmed = title.trim()
+  if (trimmed.length > MAX_MATTER_TITLE_LENGTH || !MATTER_TITLE_PATTERN.test(trimmed)) return null
+
+  return location <= totalLocations / 2 ? 'front' : 'back'
+}
+
+// Mark chapters whose titles name front or back matter
+export function applyMatterTitles(boundaries: ChapterBoundary[], totalLocations: number): ChapterBoundary[] {
+  return boundaries.map(boundary => {
+    const matter = boundary.title ? getMatterForTitle(boundary.title, boundary.startPage, totalLocations) : null
+    return matter ? { ...boundary, matter } : boundary
+  })
+}
+
+// Mark pages up to frontEnd as front matter and from backStart on as back
+// matter, splitting any chapter that straddles either edge
+export function splitMatterRanges(boundaries: ChapterBoundary[], frontEnd: number, backStart: number): ChapterBoundary[] {
+  const split: ChapterBoundary[] = []
+
+  for (const boundary of boundaries) {
+    if (boundary.endPage <= frontEnd) {
+      split.push({ ...boundary, matter: 'front' })
+      continue
+    }
+    if (boundary.startPage >= backStart) {
+      split.push({ ...boundary, matter: 'back' })
+      continue
+    }
+
+    const body = { ...boundary }
+    if (body.startPage <= frontEnd) {
+      split.push({ chapter: 0, startPage: body.startPage, endPage: frontEnd, matter: 'front' })
+      body.startPage = frontEnd + 1
+      delete body.startOffset
+    }
+
+    const backEnd = body.endPage
+    if (backEnd >= backStart) {
+      body.endPage = backStart - 1
+      delete body.endOffset
+    }
+    split.push(body)
+
+    if (backEnd >= backStart) {
+      split.push({ chapter: 0, startPage: backStart, endPage: backEnd, matter: 'back' })
+    }
+  }
+
+  return split.map((boundary, index) => ({ ...boundary, chapter: index + 1 }))
+}
+
+// Front and back matter stay in the boundary list so page ranges remain
+// contiguous, but are skipped when analyzing
+export function isAnalyzableChapter(boundary: ChapterBoundary): boolean {
+  return !boundary.matter
+}
+
+// Turn a sorted list of chapter start locations into contiguous boundaries.
+// Anything before the first start becomes its own leading chapter.
+export function createChapterBoundaries(chapterStarts: Array<number | ChapterStart>, totalLocations: number): ChapterBoundary[] {
+  const starts: ChapterStart[] = chapterStarts.map(start => typeof start === 'number' ? { page: start } : start)
+  const boundaries: ChapterBoundary[] = []
+
+  if (starts[0]?.page !== 1) {
+    starts.unshift({ page: 1 })
+  }
+
+  for (let i = 0; i < starts.length; i++) {
+    const { page: startPage, title, part } = starts[i]
+    const endPage = i < starts.length - 1 ? starts[i + 1].page - 1 : totalLocations
+
+    boundaries.push({
+      chapter: i + 1,
+      startPage,
+      endPage,
+      ...(title ? { title } : {}),
+      ...(part ? { part } : {}),
+      ...(title && isUnnumberedTitle(title) ? { unnumbered: true } : {})
+    })
+  }
+
+  return boundaries
+}
+
+// Keep only the part of a location's text that belongs to the chapter, for
+// chapters that start or end partway down a page
+export function clipLocationText(text: string, location: number, boundary: ChapterBoundary): string {
+  const start = location === boundary.startPage ? boundary.startOffset ?? 0 : 0
+  const end = location === boundary.endPage ? boundary.endOffset ?? text.length : text.length
+
+  return text.slice(start, end)
+}
+
+// `chapter` is the position in reading order and drives navigation and analysis.
+// The printed number skips unnumbered sections, so a prologue does not turn
+// Chapter 1 into "Chapter 2".
+export function getChapterNumber(boundaries: ChapterBoundary[], chapter: number): number | null {
+  const boundary = boundaries.find(b => b.chapter === chapter)
+  if (!boundary) return chapter
+  if (boundary.unnumbered || boundary.matter) return null
+
+  return boundaries.filter(b => b.chapter <= chapter && !b.unnumbered && !b.matter).length
+}
+
+export function getNumberedChapterCount(boundaries: ChapterBoundary[]): number {
+  return boundaries.filter(b => !b.unnumbered && !b.matter).length
+}
+
+// "Chapter 3: The Storm", "Chapter 3" or "Prologue"
+export function getChapterLabel(boundaries: ChapterBoundary[], chapter: number): string {
+  const boundary = boundaries.find(b => b.chapter === chapter)
+  const number = getChapterNumber(boundaries, chapter)
+
+  if (number === null) {
+    if (boundary?.matter && !boundary.title) {
+      return boundary.matter === 'front' ? 'Front matter' : 'Back matter'
+    }
+    return boundary?.title || 'Untitled section'
+  }
+
+  // Titles such as "Chapter Seven" already carry their own number
+  if (boundary?.title && /^chapter\b/i.test(boundary.title)) {
+    return boundary.title
+  }
+
+  return boundary?.title ? `Chapter ${number}: ${boundary.title}` : `Chapter ${number}`
+}
+
+// Identifies the exact text range of a chapter, offsets included
+export function getBoundaryKey(boundary: ChapterBoundary): string {
+  return `${boundary.startPage}:${boundary.startOffset ?? ''}-${boundary.endPage}:${boundary.endOffset ?? ''}`
+}
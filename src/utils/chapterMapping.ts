@@ -0,0 +1,129 @@
+import { AnalysisJob, AttributeEntry, Character, CharacterAttributeHistory, ChapterBoundary, ChapterHistory } from '../types'
+import { getBoundaryKey } from './chapterBoundaries'
+
+// Old chapter number -> new chapter number. Old chapters with no counterpart
+// map to null (or are left out); their chapter history is dropped.
+export type ChapterMapping = Map<number, number | null>
+
+// Share of an old chapter's pages a new chapter must cover to take over its facts
+const MIN_OVERLAP_FRACTION = 0.2
+
+// Map chapters across a boundary edit by the pages they share. A split chapter
+// maps to the last part holding a real share of its pages: what was known by
+// the end of the old chapter is only certain by the end of that part.
+export function mapChaptersByPageOverlap(oldBoundaries: ChapterBoundary[], newBoundaries: ChapterBoundary[]): ChapterMapping {
+  const mapping: ChapterMapping = new Map()
+
+  for (const oldBoundary of oldBoundaries) {
+    const pageCount = oldBoundary.endPage - oldBoundary.startPage + 1
+    const overlaps = newBoundaries
+      .map(newBoundary => ({
+        chapter: newBoundary.chapter,
+        pages: Math.min(oldBoundary.endPage, newBoundary.endPage) - Math.max(oldBoundary.startPage, newBoundary.startPage) + 1
+      }))
+      .filter(overlap => overlap.pages > 0)
+      .sort((a, b) => a.chapter - b.chapter)
+
+    const lastShare = [...overlaps].reverse().find(overlap => overlap.pages >= pageCount * MIN_OVERLAP_FRACTION)
+    const largest = overlaps.reduce<{ chapter: number; pages: number } | null>(
+      (best, overlap) => !best || overlap.pages > best.pages ? overlap : best,
+      null
+    )
+
+    mapping.set(oldBoundary.chapter, (lastShare || largest)?.chapter ?? null)
+  }
+
+  return mapping
+}
+
+// New chapters whose text range matches no old chapter exactly
+export function getChangedChapters(oldBoundaries: ChapterBoundary[], newBoundaries: ChapterBoundary[]): number[] {
+  const oldKeys = new Set(oldBoundaries.map(getBoundaryKey))
+  return newBoundaries.filter(boundary => !oldKeys.has(getBoundaryKey(boundary))).map(boundary => boundary.chapter)
+}
+
+// Mapped chapter numbers, dropping chapters with no counterpart
+export function remapChapterList(chapters: Iterable<number>, mapping: ChapterMapping): number[] {
+  const remapped = new Set<number>()
+  for (const chapter of chapters) {
+    const mapped = mapping.get(chapter)
+    if (typeof mapped === 'number') remapped.add(mapped)
+  }
+
+  return [...remapped].sort((a, b) => a - b)
+}
+
+// Where a fact recorded in an old chapter lands. Facts from an unmatched
+// chapter move forward to the next matched one, never earlier, so remapping
+// cannot reveal anything before the reader could have learned it.
+export function remapChapter(chapter: number, mapping: ChapterMapping, totalChapters: number): number {
+  const mapped = mapping.get(chapter)
+  if (typeof mapped === 'number') return mapped
+
+  const laterChapters = [...mapping.keys()].filter(oldChapter => oldChapter > chapter).sort((a, b) => a - b)
+  for (const laterChapter of laterChapters) {
+    const laterMapped = mapping.get(laterChapter)
+    if (typeof laterMapped === 'number') return laterMapped
+  }
+
+  return totalChapters
+}
+
+export function remapCharacter(character: Character, mapping: ChapterMapping, totalChapters: number): Character {
+  // Several old chapters can become one, e.g. after a merge
+  const historyByChapter = new Map<number, ChapterHistory>()
+  for (const history of character.chapterHistory) {
+    const chapter = mapping.get(history.chapter)
+    if (typeof chapter !== 'number') continue
+
+    const existing = historyByChapter.get(chapter)
+    historyByChapter.set(chapter, existing
+      ? { chapter, updates: [...existing.updates, ...history.updates] }
+      : { chapter, updates: [...history.updates] })
+  }
+
+  const remap = (chapter: number) => remapChapter(chapter, mapping, totalChapters)
+
+  // Dated values are kept, moving forward with their chapter; where two land
+  // on one chapter the sort keeps the later one last, so it wins
+  const attributeHistory: CharacterAttributeHistory = {}
+  for (const [field, entries] of Object.entries(character.attributeHistory || {})) {
+    Object.assign(attributeHistory, {
+      [field]: (entries as AttributeEntry<unknown>[])
+        .map(entry => ({ ...entry, chapter: remap(entry.chapter) }))
+        .sort((a, b) => a.chapter - b.chapter)
+    })
+  }
+
+  return {
+    ...character,
+    firstAppearance: remap(character.firstAppearance),
+    lastMentioned: Math.max(remap(character.firstAppearance), remap(character.lastMentioned)),
+    chapterHistory: [...historyByChapter.values()].sort((a, b) => a.chapter - b.chapter),
+    attributeHistory: character.attributeHistory && attributeHistory,
+    mentionedInChapters: character.mentionedInChapters && [...new Set(character.mentionedInChapters.map(remap))].sort((a, b) => a - b),
+    relationships: character.relationships.map(relationship => ({
+      ...relationship,
+      establishedInChapter: remap(relationship.establishedInChapter),
+      history: relationship.history?.map(state => ({ ...state, chapter: remap(state.chapter) }))
+    }))
+  }
+}
+
+// A paused job's chapters follow a boundary edit. Chapters that no longer
+// exist are dropped; where two land on one chapter the first entry is kept.
+export function remapJob(job: AnalysisJob, mapping: ChapterMapping): AnalysisJob {
+  const chapters = new Map<number, AnalysisJob['chapters'][number]>()
+  for (const entry of job.chapters) {
+    const chapter = mapping.get(entry.chapter)
+    if (typeof chapter === 'number' && !chapters.has(chapter)) {
+      chapters.set(chapter, { ...entry, chapter })
+    }
+  }
+
+  return {
+    ...job,
+    chapters: [...chapters.values()].sort((a, b) => a.chapter - b.chapter),
+    updatedAt: new Date().toISOString()
+  }
+}
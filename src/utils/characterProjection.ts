@@ -0,0 +1,219 @@
+import { AttributeEntry, Character, CharacterAttributeHistory, VersionedCharacterField } from '../types'
+import { projectRelationships } from './relationshipStates'
+
+const VERSIONED_FIELDS: VersionedCharacterField[] = [
+  'name', 'occupation', 'age', 'location', 'status', 'relevance', 'briefDescription'
+]
+
+export const RELEVANCE_ORDER: Record<Character['relevance'], number> = { Minor: 1, Supporting: 2, Major: 3 }
+
+export function isVersionedField(field: string): field is VersionedCharacterField {
+  return (VERSIONED_FIELDS as string[]).includes(field)
+}
+
+// Record a field's value as of a chapter, replacing any value already dated to
+// that chapter. The character's plain field follows the latest chapter's value,
+// whatever order chapters were analyzed in. Updates the character in place.
+export function recordAttribute<F extends VersionedCharacterField>(
+  character: Character,
+  field: F,
+  chapter: number,
+  value: NonNullable<Character[F]>
+): void {
+  const history: CharacterAttributeHistory = { ...character.attributeHistory }
+  const entries = (history[field] || []) as AttributeEntry<NonNullable<Character[F]>>[]
+  history[field] = insertEntry(entries, { chapter, value }) as CharacterAttributeHistory[F]
+  character.attributeHistory = history
+  syncLatestAttributes(character)
+}
+
+// An alias is dated to the first chapter it was used in
+export function recordAlias(character: Character, alias: string, chapter: number): void {
+  const entries = character.attributeHistory?.aliases || []
+  const existing = entries.find(entry => entry.value.toLowerCase() === alias.toLowerCase())
+  if (existing && existing.chapter <= chapter) return
+
+  character.attributeHistory = {
+    ...character.attributeHistory,
+    aliases: insertEntry(entries.filter(entry => entry !== existing), { chapter, value: alias })
+  }
+  syncLatestAttributes(character)
+}
+
+// Chapters can be analyzed in any order, so a mention can also move the
+// character's first appearance earlier
+export function recordMention(character: Character, chapter: number): void {
+  const mentions = new Set(character.mentionedInChapters || [])
+  mentions.add(chapter)
+  character.mentionedInChapters = [...mentions].sort((a, b) => a - b)
+  character.mentionCount = character.mentionedInChapters.length
+  character.firstAppearance = Math.min(character.firstAppearance, chapter)
+  character.lastMentioned = Math.max(...character.mentionedInChapters)
+}
+
+// Remove everything dated to a chapter from a character's series. Updates the
+// character in place.
+export function removeChapterAttributes(character: Character, chapter: number): void {
+  const history: CharacterAttributeHistory = {}
+  for (const [field, entries] of Object.entries(character.attributeHistory || {})) {
+    Object.assign(history, { [field]: (entries as AttributeEntry<unknown>[]).filter(entry => entry.chapter !== chapter) })
+  }
+  character.attributeHistory = history
+
+  if (character.mentionedInChapters) {
+    character.mentionedInChapters = character.mentionedInChapters.filter(mentioned => mentioned !== chapter)
+    character.mentionCount = character.mentionedInChapters.length
+    if (character.mentionedInChapters.length > 0) {
+      character.lastMentioned = Math.max(...character.mentionedInChapters)
+    }
+  }
+
+  syncLatestAttributes(character)
+}
+
+// Set the plain fields to the latest value in each series
+export function syncLatestAttributes(character: Character): void {
+  const history = character.attributeHistory || {}
+
+  for (const field of VERSIONED_FIELDS) {
+    const entries = history[field]
+    if (!entries || entries.length === 0) continue
+    Object.assign(character, { [field]: field === 'relevance' ? highestRelevance(history.relevance!) : entries[entries.length - 1].value })
+  }
+
+  if (history.aliases) {
+    character.aliases = history.aliases
+      .map(entry => entry.value)
+      .filter(alias => alias.toLowerCase() !== character.name.toLowerCase())
+  }
+}
+
+// Series for one character made from two. The target's name stands and its
+// values win where both have one for the same chapter; the source's name
+// becomes an alias from its first appearance.
+export function mergeAttributeHistories(target: Character, source: Character): CharacterAttributeHistory {
+  const targetHistory = (target.attributeHistory ? target : seedAttributeHistory(target)).attributeHistory!
+  const sourceHistory = (source.attributeHistory ? source : seedAttributeHistory(source)).attributeHistory!
+  const merged: CharacterAttributeHistory = { name: targetHistory.name }
+
+  for (const field of VERSIONED_FIELDS) {
+    if (field === 'name') continue
+    let entries = (sourceHistory[field] || []) as AttributeEntry<unknown>[]
+    for (const entry of (targetHistory[field] || []) as AttributeEntry<unknown>[]) {
+      entries = insertEntry(entries, entry)
+    }
+    Object.assign(merged, { [field]: entries })
+  }
+
+  const holder: Character = { ...target, attributeHistory: { aliases: targetHistory.aliases || [] } }
+  const sourceNames = [
+    { chapter: source.firstAppearance, value: source.name },
+    ...(sourceHistory.aliases || [])
+  ]
+  for (const entry of sourceNames) {
+    recordAlias(holder, entry.value, entry.chapter)
+  }
+  merged.aliases = holder.attributeHistory!.aliases
+
+  return merged
+}
+
+// The character as a reader who has finished the given chapter knows it, or
+// null if it has not appeared yet. Nothing dated to a later chapter is kept:
+// fields take their value as of the chapter, relevance the highest reached by
+// then, and mentions, aliases, relationships and history are cut off there.
+export function projectCharacterToChapter(stored: Character, chapter: number): Character | null {
+  if (stored.firstAppearance > chapter) return null
+
+  const character = stored.attributeHistory ? stored : seedAttributeHistory(stored)
+  const history = character.attributeHistory!
+  const mentions = (character.mentionedInChapters || [character.firstAppearance]).filter(mentioned => mentioned <= chapter)
+  const relevanceSoFar = (history.relevance || []).filter(entry => entry.chapter <= chapter)
+  const name = valueAsOf(history.name, chapter) || history.name?.[0]?.value || character.name
+
+  return {
+    id: character.id,
+    bookId: character.bookId,
+    name,
+    occupation: valueAsOf(history.occupation, chapter),
+    age: valueAsOf(history.age, chapter),
+    location: valueAsOf(history.location, chapter),
+    status: valueAsOf(history.status, chapter) || 'Unknown',
+    relevance: relevanceSoFar.length > 0 ? highestRelevance(relevanceSoFar) : 'Minor',
+    briefDescription: valueAsOf(history.briefDescription, chapter),
+    firstAppearance: character.firstAppearance,
+    lastMentioned: Math.max(character.firstAppearance, ...mentions),
+    mentionCount: Math.max(1, mentions.length),
+    mentionedInChapters: mentions,
+    aliases: (history.aliases || [])
+      .filter(entry => entry.chapter <= chapter && entry.value.toLowerCase() !== name.toLowerCase())
+      .map(entry => entry.value),
+    relationships: projectRelationships(character.relationships, chapter),
+    chapterHistory: character.chapterHistory.filter(history => history.chapter <= chapter)
+  }
+}
+
+// Build series for a character saved before attributes were versioned. Its
+// chapter history gives occupations and descriptions by chapter. Other fields
+// only held their latest value, so they are dated to the last chapter that
+// mentioned the character rather than risk showing them too early.
+export function seedAttributeHistory(stored: Character): Character {
+  const character: Character = { ...stored, attributeHistory: {} }
+  const history = character.attributeHistory!
+  const lastChapter = Math.max(stored.firstAppearance, stored.lastMentioned)
+
+  history.name = [{ chapter: stored.firstAppearance, value: stored.name }]
+  history.aliases = (stored.aliases || []).map(alias => ({ chapter: lastChapter, value: alias }))
+
+  for (const entry of stored.chapterHistory) {
+    const occupation = entry.updates.find(update => update.startsWith('Occupation: '))
+    const description = entry.updates.find(update => !update.startsWith('Occupation: ') && update !== 'First appearance')
+    if (occupation) {
+      history.occupation = insertEntry(history.occupation || [], { chapter: entry.chapter, value: occupation.slice('Occupation: '.length) })
+    }
+    if (description) {
+      history.briefDescription = insertEntry(history.briefDescription || [], { chapter: entry.chapter, value: description })
+    }
+  }
+
+  const latestOnly: Array<'occupation' | 'age' | 'location' | 'briefDescription'> = ['occupation', 'age', 'location', 'briefDescription']
+  for (const field of latestOnly) {
+    const value = stored[field]
+    if (value && value !== 'Unknown' && history[field]?.[history[field]!.length - 1]?.value !== value) {
+      history[field] = insertEntry(history[field] || [], { chapter: lastChapter, value })
+    }
+  }
+  if (stored.status !== 'Unknown') {
+    history.status = [{ chapter: lastChapter, value: stored.status }]
+  }
+  history.relevance = insertEntry([{ chapter: stored.firstAppearance, value: 'Minor' }], { chapter: lastChapter, value: stored.relevance })
+
+  character.mentionedInChapters = [...new Set([
+    stored.firstAppearance,
+    ...stored.chapterHistory.map(entry => entry.chapter),
+    stored.lastMentioned
+  ])].sort((a, b) => a - b)
+
+  return character
+}
+
+// Later entries for the same chapter win; order is otherwise by chapter
+function insertEntry<T>(entries: AttributeEntry<T>[], entry: AttributeEntry<T>): AttributeEntry<T>[] {
+  return [...entries.filter(existing => existing.chapter !== entry.chapter), entry].sort((a, b) => a.chapter - b.chapter)
+}
+
+function valueAsOf<T>(entries: AttributeEntry<T>[] | undefined, chapter: number): T | undefined {
+  let value: T | undefined
+  for (const entry of entries || []) {
+    if (entry.chapter > chapter) break
+    value = entry.value
+  }
+  return value
+}
+
+function highestRelevance(entries: AttributeEntry<Character['relevance']>[]): Character['relevance'] {
+  return entries.reduce<Character['relevance']>(
+    (highest, entry) => RELEVANCE_ORDER[entry.value] > RELEVANCE_ORDER[highest] ? entry.value : highest,
+    'Minor'
+  )
+}
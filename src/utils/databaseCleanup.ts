@@ -4,7 +4,8 @@ import { bookService } from '../db/services'
 
 export class DatabaseCleanup {
   
-  // Clean up duplicate books and fix ID issues
+  // Report books made from the same file. Duplicates are flagged in the
+  // library rather than deleted, since each copy may have its own analysis.
   static async cleanupDatabase(): Promise<void> {
     console.log('🧹 Starting database cleanup...')
     
@@ -12,41 +13,13 @@ export class DatabaseCleanup {
       const allBooks = await db.books.toArray()
       console.log(`📚 Found ${allBooks.length} books in database`)
       
-      // Group books by filename to find duplicates
-      const booksByFilename = new Map<string, any[]>()
+      const duplicateGroups = await bookService.findDuplicateBooks()
       
-      for (const book of allBooks) {
-        const filename = book.fileName
-        if (!booksByFilename.has(filename)) {
-          booksByFilename.set(filename, [])
-        }
-        booksByFilename.get(filename)!.push(book)
-      }
-      
-      let removedCount = 0
-      
-      // Remove duplicates, keeping the most recent one
-      for (const [filename, books] of booksByFilename) {
-        if (books.length > 1) {
-          console.log(`🔍 Found ${books.length} copies of "${filename}"`)
-          
-          // Sort by upload date (most recent first)
-          books.sort((a, b) => new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime())
-          
-          const keepBook = books[0]
-          const duplicates = books.slice(1)
-          
-          console.log(`✅ Keeping book with ID: ${keepBook.id}`)
-          
-          for (const duplicate of duplicates) {
-            console.log(`🗑️ Removing duplicate with ID: ${duplicate.id}`)
-            await bookService.deleteBook(duplicate.id)
-            removedCount++
-          }
-        }
+      for (const books of duplicateGroups) {
+        console.log(`🔍 Found ${books.length} copies of the same file: ${books.map(book => `"${book.title}" (${book.id})`).join(', ')}`)
       }
       
-      console.log(`🧹 Database cleanup complete. Removed ${removedCount} duplicate books.`)
+      console.log(`🧹 Database cleanup complete. ${duplicateGroups.length} files are in the library more than once.`)
       
     } catch (error) {
       console.error('❌ Database cleanup failed:', error)
@@ -65,32 +65,33 @@ export class DatabaseIntegrityChecker {
     }
   }
   
-  // Find book by alternative methods if ID lookup fails
-  static async findBookByAlternatives(targetBook: { fileName?: string, title?: string, author?: string }): Promise<Book | null> {
+  // Find book by alternative methods if ID lookup fails. Copies of the same
+  // file are kept as separate books, so only a match no other book shares counts.
+  static async findBookByAlternatives(targetBook: { contentHash?: string, title?: string, author?: string }): Promise<Book | null> {
     try {
       const allBooks = await db.books.toArray()
       
-      // Try to find by filename first (most reliable)
-      if (targetBook.fileName) {
-        const byFileName = allBooks.find(book => book.fileName === targetBook.fileName)
-        if (byFileName) {
+      // Try to find by file content first (most reliable)
+      if (targetBook.contentHash) {
+        const byContentHash = allBooks.filter(book => book.contentHash === targetBook.contentHash)
+        if (byContentHash.length === 1) {
           if (console && console.log) {
-            console.log('DatabaseIntegrityChecker: Found book by filename')
+            console.log('DatabaseIntegrityChecker: Found book by content hash')
           }
-          return byFileName
+          return byContentHash[0]
         }
       }
       
       // Try to find by title and author
       if (targetBook.title && targetBook.author) {
-        const byTitleAuthor = allBooks.find(book => 
+        const byTitleAuthor = allBooks.filter(book => 
           book.title === targetBook.title && book.author === targetBook.author
         )
-        if (byTitleAuthor) {
+        if (byTitleAuthor.length === 1) {
           if (console && console.log) {
             console.log('DatabaseIntegrityChecker: Found book by title/author')
           }
-          return byTitleAuthor
+          return byTitleAuthor[0]
         }
       }
       
@@ -2,7 +2,7 @@
 // Add this to window so you can call it from browser console
 
 import { db } from '../db/database'
-// import { bookService } from '../db/services'
+import { groupDuplicateBooks } from '../db/services'
 
 // Make debugging functions available on window object
 declare global {
@@ -10,7 +10,7 @@ declare global {
     debugBooks: () => Promise<void>
     debugDatabase: () => Promise<void>
     clearDatabase: () => Promise<void>
-    cleanDuplicates: () => Promise<void>
+    findDuplicates: () => Promise<void>
   }
 }
 
@@ -36,11 +36,10 @@ window.debugBooks = async () => {
     })
     
     // Check for duplicates
-    const fileNames = allBooks.map(b => b.fileName)
-    const duplicates = fileNames.filter((name, index) => fileNames.indexOf(name) !== index)
+    const duplicateGroups = groupDuplicateBooks(allBooks)
     
-    if (duplicates.length > 0) {
-      console.warn('⚠️ Duplicate files found:', [...new Set(duplicates)])
+    if (duplicateGroups.length > 0) {
+      console.warn('⚠️ Duplicate files found:', duplicateGroups.map(books => books.map(b => `${b.title} (${b.id})`)))
     }
     
     console.log('=== END DEBUG INFO ===')
@@ -89,6 +88,12 @@ window.clearDatabase = async () => {
       await db.books.clear()
       await db.characters.clear()
       await db.settings.clear()
+      await db.pageTexts.clear()
+      await db.chapterTexts.clear()
+      await db.ocrPages.clear()
+      await db.credentials.clear()
+      await db.analysisJobs.clear()
+      await db.analysisRuns.clear()
       console.log('✅ Database cleared successfully')
       window.location.reload()
     } catch (error) {
@@ -97,24 +102,19 @@ window.clearDatabase = async () => {
   }
 }
 
-// Clean duplicates function
-window.cleanDuplicates = async () => {
+// Find duplicates function
+window.findDuplicates = async () => {
   try {
-    console.log('🧹 Starting duplicate cleanup...')
+    console.log('🔍 Looking for duplicate books...')
     
     const { SafeBookOperations } = await import('./safeBookOperations')
-    await SafeBookOperations.emergencyCleanup()
+    const duplicateGroups = await SafeBookOperations.reportDuplicates()
     
-    console.log('✅ Duplicate cleanup completed!')
-    console.log('📚 Run window.debugBooks() to see the cleaned database')
-    
-    // Refresh the page to see changes
-    if (window.confirm('Duplicate cleanup completed! Refresh page to see changes?')) {
-      window.location.reload()
-    }
+    console.log(`✅ ${duplicateGroups.length} files are in the library more than once`)
+    console.log('📚 Delete the copies you do not need from the library')
     
   } catch (error) {
-    console.error('❌ Duplicate cleanup failed:', error)
+    console.error('❌ Duplicate check failed:', error)
   }
 }
 
@@ -122,6 +122,6 @@ console.log('🔧 Debug tools loaded! Available commands:')
 console.log('- window.debugBooks() - Show all books')
 console.log('- window.debugDatabase() - Show full database info') 
 console.log('- window.clearDatabase() - Clear entire database')
-console.log('- window.cleanDuplicates() - Remove duplicate books')
+console.log('- window.findDuplicates() - List books made from the same file')
 
 export {}
\ No newline at end of file
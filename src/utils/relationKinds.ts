@@ -0,0 +1,134 @@
+import { Character, RelationKind, Relationship, RelationshipState } from '../types'
+import { getRelationshipStates, mergeRelationships, recordRelationshipState } from './relationshipStates'
+
+interface RelationKindInfo {
+  type: Relationship['type']
+  label: string // Reads "<character> <label> <target>"
+  inverse: RelationKind // What the target is to the character
+  arrow?: 'to-target' | 'from-target' // Map arrows run parent to child, mentor to student, and so on
+}
+
+export const RELATION_KINDS: Record<RelationKind, RelationKindInfo> = {
+  'parent-of': { type: 'family', label: 'parent of', inverse: 'child-of', arrow: 'to-target' },
+  'child-of': { type: 'family', label: 'child of', inverse: 'parent-of', arrow: 'from-target' },
+  'sibling-of': { type: 'family', label: 'sibling of', inverse: 'sibling-of' },
+  'spouse-of': { type: 'family', label: 'married to', inverse: 'spouse-of' },
+  'partner-of': { type: 'romantic', label: 'partner of', inverse: 'partner-of' },
+  'mentor-of': { type: 'professional', label: 'mentor of', inverse: 'student-of', arrow: 'to-target' },
+  'student-of': { type: 'professional', label: 'student of', inverse: 'mentor-of', arrow: 'from-target' },
+  'employer-of': { type: 'professional', label: 'employer of', inverse: 'employee-of', arrow: 'to-target' },
+  'employee-of': { type: 'professional', label: 'employee of', inverse: 'employer-of', arrow: 'from-target' },
+  'colleague-of': { type: 'professional', label: 'colleague of', inverse: 'colleague-of' },
+  'friend-of': { type: 'friendship', label: 'friend of', inverse: 'friend-of' },
+  'enemy-of': { type: 'conflict', label: 'enemy of', inverse: 'enemy-of' },
+  'killed': { type: 'conflict', label: 'killed', inverse: 'killed-by', arrow: 'to-target' },
+  'killed-by': { type: 'conflict', label: 'killed by', inverse: 'killed', arrow: 'from-target' }
+}
+
+export const RELATION_KIND_NAMES = Object.keys(RELATION_KINDS) as RelationKind[]
+
+// Everyday wordings of each kind, for reading kinds out of free-text
+// descriptions. Longer phrases are tried first, so "killed by" is not read as "killed".
+const KIND_PHRASES: Array<[string, RelationKind]> = ([
+  ['father of', 'parent-of'], ['mother of', 'parent-of'], ['parent of', 'parent-of'],
+  ['son of', 'child-of'], ['daughter of', 'child-of'], ['child of', 'child-of'],
+  ['brother of', 'sibling-of'], ['sister of', 'sibling-of'], ['sibling of', 'sibling-of'],
+  ['husband of', 'spouse-of'], ['wife of', 'spouse-of'], ['married to', 'spouse-of'], ['spouse of', 'spouse-of'],
+  ['lover of', 'partner-of'], ['partner of', 'partner-of'], ['engaged to', 'partner-of'],
+  ['mentor of', 'mentor-of'], ['mentor to', 'mentor-of'], ['teacher of', 'mentor-of'],
+  ['student of', 'student-of'], ['apprentice of', 'student-of'], ['apprentice to', 'student-of'],
+  ['employer of', 'employer-of'], ['boss of', 'employer-of'], ['master of', 'employer-of'],
+  ['employee of', 'employee-of'], ['works for', 'employee-of'], ['servant of', 'employee-of'],
+  ['colleague of', 'colleague-of'], ['works with', 'colleague-of'],
+  ['friend of', 'friend-of'], ['friends with', 'friend-of'],
+  ['enemy of', 'enemy-of'], ['enemies with', 'enemy-of'],
+  ['killed by', 'killed-by'], ['murdered by', 'killed-by'],
+  ['killed', 'killed'], ['murdered', 'killed']
+] as Array<[string, RelationKind]>).sort((a, b) => b[0].length - a[0].length)
+
+// A kind written any of the usual ways: "parent-of", "Parent of", "parent_of"
+export function normalizeRelationKind(value: string): RelationKind | undefined {
+  const key = value.trim().toLowerCase().replace(/[\s_]+/g, '-')
+  return RELATION_KIND_NAMES.find(kind => kind === key)
+}
+
+// The kind a description such as "father of" or "was killed by" names, if any
+export function inferRelationKind(description: string): RelationKind | undefined {
+  const text = ` ${description.toLowerCase().replace(/[^a-z]+/g, ' ').trim()} `
+  return KIND_PHRASES.find(([phrase]) => text.includes(` ${phrase} `))?.[1]
+}
+
+// Record a state's inverse on the target's side, given the target's
+// relationships and the id of the character the state belongs to. A state the
+// target already has for the chapter with that kind is kept, since its own
+// wording ("son of") says more than the generic label ("child of"). A state
+// with no kind has no inverse, but it still replaces a kind the target holds
+// from an earlier chapter, so "child of" does not outlast "estranged".
+export function mirrorRelationshipState(
+  targetRelationships: Relationship[],
+  characterId: string,
+  state: RelationshipState
+): Relationship[] {
+  const existing = targetRelationships.find(relationship => relationship.targetCharacterId === characterId)
+  const states = existing ? getRelationshipStates(existing) : []
+  const sameChapter = states.find(candidate => candidate.chapter === state.chapter)
+  const inverse = invertRelationshipState(state)
+
+  if (!inverse) {
+    const standing = [...states].reverse().find(candidate => candidate.chapter < state.chapter)
+    if (sameChapter || !standing?.kind) return targetRelationships
+    return recordRelationshipState(targetRelationships, characterId, { ...state })
+  }
+
+  if (sameChapter && sameChapter.kind === inverse.kind && Boolean(sameChapter.ended) === Boolean(inverse.ended)) {
+    return targetRelationships
+  }
+
+  return recordRelationshipState(targetRelationships, characterId, inverse)
+}
+
+// For characters saved before kinds existed: states take the kind their
+// description names, and each is mirrored onto its target. Pass all of a
+// book's characters; targets outside the list are skipped.
+export function addRelationKinds(characters: Character[]): Character[] {
+  const original = characters.map(character => ({
+    ...character,
+    relationships: character.relationships.map(withInferredKinds)
+  }))
+  const byId = new Map(original.map(character => [character.id, { ...character }]))
+
+  for (const character of original) {
+    for (const relationship of character.relationships) {
+      const target = byId.get(relationship.targetCharacterId)
+      if (!target) continue
+
+      for (const state of getRelationshipStates(relationship)) {
+        target.relationships = mirrorRelationshipState(target.relationships, character.id, state)
+      }
+    }
+  }
+
+  return [...byId.values()]
+}
+
+function withInferredKinds(relationship: Relationship): Relationship {
+  const states = getRelationshipStates(relationship).map(state => {
+    const kind = state.kind || inferRelationKind(state.description)
+    return kind && RELATION_KINDS[kind].type === state.type ? { ...state, kind } : state
+  })
+
+  return mergeRelationships([{ ...relationship, history: states }])[0]
+}
+
+// The same state seen from the target's side
+function invertRelationshipState(state: RelationshipState): RelationshipState | null {
+  if (!state.kind) return null
+
+  const inverse = RELATION_KINDS[state.kind].inverse
+  return {
+    ...state,
+    kind: inverse,
+    type: RELATION_KINDS[inverse].type,
+    description: RELATION_KINDS[inverse].label
+  }
+}
@@ -0,0 +1,100 @@
+import { Relationship, RelationshipState } from '../types'
+
+// A relationship's states, oldest first. Relationships saved before states
+// were kept have a single one, from the chapter they were established in.
+export function getRelationshipStates(relationship: Relationship): RelationshipState[] {
+  if (relationship.history && relationship.history.length > 0) return relationship.history
+
+  return [{
+    chapter: relationship.establishedInChapter,
+    type: relationship.type,
+    ...(relationship.kind ? { kind: relationship.kind } : {}),
+    description: relationship.description,
+    ...(relationship.ended ? { ended: true } : {})
+  }]
+}
+
+// Note how a relationship stands as of a chapter. Nothing is added when it
+// already stood that way, so only changes of type or kind and endings build
+// up history; a state from the same chapter is replaced. Returns a new list.
+export function recordRelationshipState(
+  relationships: Relationship[],
+  targetCharacterId: string,
+  state: RelationshipState
+): Relationship[] {
+  const existing = relationships.find(relationship => relationship.targetCharacterId === targetCharacterId)
+  if (!existing) {
+    return [...relationships, fromStates(targetCharacterId, [state])]
+  }
+
+  const states = getRelationshipStates(existing)
+  const standing = stateAsOf(states, state.chapter)
+  if (standing && standing.chapter !== state.chapter && isSameState(standing, state)) {
+    return relationships
+  }
+
+  const updated = fromStates(targetCharacterId, insertState(states, state))
+  return relationships.map(relationship => relationship === existing ? updated : relationship)
+}
+
+// Drop every state dated to a chapter; relationships left with none go
+export function removeRelationshipStates(relationships: Relationship[], chapter: number): Relationship[] {
+  return relationships.flatMap(relationship => {
+    const states = getRelationshipStates(relationship)
+    const remaining = states.filter(state => state.chapter !== chapter)
+    if (remaining.length === states.length) return [relationship]
+    return remaining.length > 0 ? [fromStates(relationship.targetCharacterId, remaining)] : []
+  })
+}
+
+// Relationships as they stand at the end of a chapter, with no later states
+export function projectRelationships(relationships: Relationship[], chapter: number): Relationship[] {
+  return relationships.flatMap(relationship => {
+    const states = getRelationshipStates(relationship).filter(state => state.chapter <= chapter)
+    return states.length > 0 ? [fromStates(relationship.targetCharacterId, states)] : []
+  })
+}
+
+// One relationship per target, combining the states of any duplicates. Where
+// two states share a chapter the later entry in the list wins.
+export function mergeRelationships(relationships: Relationship[], ownId?: string): Relationship[] {
+  const statesByTarget = new Map<string, RelationshipState[]>()
+
+  for (const relationship of relationships) {
+    if (relationship.targetCharacterId === ownId) continue
+
+    let states = statesByTarget.get(relationship.targetCharacterId) || []
+    for (const state of getRelationshipStates(relationship)) {
+      states = insertState(states, state)
+    }
+    statesByTarget.set(relationship.targetCharacterId, states)
+  }
+
+  return [...statesByTarget].map(([targetCharacterId, states]) => fromStates(targetCharacterId, states))
+}
+
+// The plain fields follow the latest state
+function fromStates(targetCharacterId: string, states: RelationshipState[]): Relationship {
+  const latest = states[states.length - 1]
+  return {
+    targetCharacterId,
+    type: latest.type,
+    description: latest.description,
+    establishedInChapter: states[0].chapter,
+    ...(latest.kind ? { kind: latest.kind } : {}),
+    ...(latest.ended ? { ended: true } : {}),
+    history: states
+  }
+}
+
+function stateAsOf(states: RelationshipState[], chapter: number): RelationshipState | undefined {
+  return [...states].reverse().find(state => state.chapter <= chapter)
+}
+
+function isSameState(a: RelationshipState, b: RelationshipState): boolean {
+  return a.type === b.type && a.kind === b.kind && Boolean(a.ended) === Boolean(b.ended)
+}
+
+function insertState(states: RelationshipState[], state: RelationshipState): RelationshipState[] {
+  return [...states.filter(existing => existing.chapter !== state.chapter), state].sort((a, b) => a.chapter - b.chapter)
+}
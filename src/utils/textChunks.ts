@@ -0,0 +1,60 @@
+// Split text into chunks of at most maxChars, each starting with roughly
+// overlapChars of the previous chunk's end so that a scene cut at a chunk
+// border is seen whole at least once. Cuts fall between paragraphs where
+// possible, then between sentences, then between words.
+export function splitIntoChunks(text: string, maxChars: number, overlapChars: number): string[] {
+  if (text.length <= maxChars) return [text]
+
+  const pieces = text.split(/\n\s*\n/)
+    .flatMap(paragraph => splitLongPiece(paragraph.trim(), maxChars - overlapChars))
+    .filter(piece => piece.length > 0)
+
+  const chunks: string[] = []
+  let current: string[] = []
+  let currentLength = 0
+
+  for (const piece of pieces) {
+    if (current.length > 0 && currentLength + piece.length + 2 > maxChars) {
+      chunks.push(current.join('\n\n'))
+
+      // Carry whole pieces from the end of this chunk into the next one
+      const carried: string[] = []
+      let carriedLength = 0
+      for (let i = current.length - 1; i >= 0 && carriedLength < overlapChars; i--) {
+        if (carriedLength + current[i].length + piece.length + 2 > maxChars) break
+        carried.unshift(current[i])
+        carriedLength += current[i].length + 2
+      }
+
+      current = carried
+      currentLength = carriedLength
+    }
+
+    current.push(piece)
+    currentLength += piece.length + 2
+  }
+
+  if (current.length > 0) chunks.push(current.join('\n\n'))
+  return chunks
+}
+
+function splitLongPiece(piece: string, maxChars: number): string[] {
+  if (piece.length <= maxChars) return [piece]
+
+  const parts: string[] = []
+  let remaining = piece
+
+  while (remaining.length > maxChars) {
+    const window = remaining.slice(0, maxChars)
+    const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('! '), window.lastIndexOf('? '))
+    const cut = sentenceEnd > maxChars / 2
+      ? sentenceEnd + 1
+      : window.lastIndexOf(' ') > maxChars / 2 ? window.lastIndexOf(' ') : maxChars
+
+    parts.push(remaining.slice(0, cut).trim())
+    remaining = remaining.slice(cut).trim()
+  }
+
+  if (remaining) parts.push(remaining)
+  return parts
+}
@@ -0,0 +1,77 @@
+import { PDFProcessor, PageTextLayout } from '../services/pdfProcessor'
+import { ChapterBoundary, ChapterCandidate, ChapterDetectionStrategy, ExtractedBookText, IngestionProgress } from '../types'
+
+// PDF ingestion runs here, off the main thread. One request per worker:
+// PDFService starts a fresh worker for each job and terminates it to cancel.
+// OCR needs a DOM canvas, so detection stops and asks for it when it finds
+// scanned pages; PDFService then resends the request with the OCR layouts.
+
+type OcrLayouts = Record<number, PageTextLayout>
+
+export type PdfWorkerRequest =
+  | { type: 'detect'; file: File; ocrLayouts: OcrLayouts }
+  | { type: 'extract'; file: File; ocrLayouts: OcrLayouts; chapterBoundaries: ChapterBoundary[]; includePages: boolean }
+  | { type: 'findNext'; file: File; ocrLayouts: OcrLayouts; afterPage: number }
+  | { type: 'findCandidates'; file: File; ocrLayouts: OcrLayouts }
+
+export type PdfWorkerResponse =
+  | { type: 'progress'; progress: IngestionProgress }
+  | { type: 'needs-ocr'; pages: number[] }
+  | {
+      type: 'detected'
+      chapterBoundaries: ChapterBoundary[]
+      totalPages: number
+      detectionStrategy: ChapterDetectionStrategy
+      candidates: ChapterCandidate[]
+    }
+  | { type: 'extracted'; text: ExtractedBookText }
+  | { type: 'found'; candidate: ChapterCandidate | null }
+  | { type: 'candidates'; candidates: ChapterCandidate[] }
+  | { type: 'error'; message: string }
+
+const processor = new PDFProcessor()
+
+const reply = (message: PdfWorkerResponse) => {
+  self.postMessage(message)
+}
+
+const reportProgress = (progress: IngestionProgress) => {
+  reply({ type: 'progress', progress })
+}
+
+self.onmessage = async (event: MessageEvent<PdfWorkerRequest>) => {
+  const request = event.data
+
+  try {
+    await processor.loadPDF(request.file)
+    processor.setOcrLayouts(request.ocrLayouts)
+
+    if (request.type === 'detect') {
+      const pages = await processor.findPagesNeedingOcr(reportProgress)
+      if (pages.length > 0) {
+        reply({ type: 'needs-ocr', pages })
+        return
+      }
+
+      const { chapterBoundaries, strategy, candidates } = await processor.detectChapters(reportProgress)
+      reply({
+        type: 'detected',
+        chapterBoundaries,
+        totalPages: processor.getTotalPages(),
+        detectionStrategy: strategy,
+        candidates: candidates || []
+      })
+    } else if (request.type === 'findNext') {
+      reply({ type: 'found', candidate: await processor.findNextChapterStart(request.afterPage) })
+    } else if (request.type === 'findCandidates') {
+      reply({ type: 'candidates', candidates: await processor.findChapterCandidates(reportProgress) })
+    } else {
+      const text = await processor.extractBookText(request.chapterBoundaries, request.includePages, reportProgress)
+      reply({ type: 'extracted', text })
+    }
+  } catch (error) {
+    reply({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' })
+  } finally {
+    processor.cleanup()
+  }
+}
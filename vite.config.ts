@@ -1,13 +1,67 @@
-import { defineConfig } from 'vite'
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { Plugin, defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { VitePWA } from 'vite-plugin-pwa'
 
+// Tesseract loads its worker, WebAssembly core and language data by URL at
+// runtime, so they are served from ocr/ rather than fetched from a CDN
+const OCR_ASSETS: Record<string, string> = {
+  'ocr/worker.min.js': 'node_modules/tesseract.js/dist/worker.min.js',
+  'ocr/core/tesseract-core-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'ocr/core/tesseract-core-simd-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'ocr/core/tesseract-core-relaxedsimd-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js',
+  'ocr/lang/eng.traineddata.gz': 'node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz'
+}
+
+function ocrAssets(): Plugin {
+  let root = process.cwd()
+  let base = '/'
+
+  return {
+    name: 'ocr-assets',
+    configResolved(config) {
+      root = config.root
+      base = config.base
+    },
+    configureServer(server) {
+      server.middlewares.use((request, response, next) => {
+        const fileName = request.url?.split('?')[0].slice(base.length)
+        const source = fileName && OCR_ASSETS[fileName]
+        if (!source) return next()
+
+        response.setHeader('Content-Type', fileName.endsWith('.js') ? 'text/javascript' : 'application/octet-stream')
+        response.end(readFileSync(resolve(root, source)))
+      })
+    },
+    generateBundle() {
+      for (const [fileName, source] of Object.entries(OCR_ASSETS)) {
+        this.emitFile({ type: 'asset', fileName, source: readFileSync(resolve(root, source)) })
+      }
+    }
+  }
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [
     react(),
+    ocrAssets(),
     VitePWA({
       registerType: 'autoUpdate',
+      workbox: {
+        // The OCR engine ships three cores of about 4 MB each and loads only
+        // the one the browser supports, so it is cached as requested instead
+        globIgnores: ['**/ocr/**'],
+        runtimeCaching: [{
+          urlPattern: /\/ocr\//,
+          handler: 'CacheFirst',
+          options: {
+            cacheName: 'ocr-engine',
+            cacheableResponse: { statuses: [200] }
+          }
+        }]
+      },
       includeAssets: ['favicon.ico', 'apple-touch-icon.png', 'masked-icon.svg'],
       manifest: {
         name: 'Book Character Tracker',
@@ -30,6 +84,10 @@ export default defineConfig({
     })
   ],
   base: '/book-character-tracker/',
+  worker: {
+    // The PDF worker pulls in pdf.js, which splits into several chunks
+    format: 'es'
+  },
   build: {
     outDir: 'dist',
     assetsDir: 'assets'